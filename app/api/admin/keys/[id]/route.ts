@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AppError } from '@/lib/errors'
+import { errorResponse } from '@/lib/api-error'
+import { describeApiKey, isAdminRequest, revokeApiKey } from '@/lib/api-keys'
+
+// Revokes a key. The record is kept so it still shows up in the key list.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  if (!isAdminRequest(request)) {
+    return errorResponse(new AppError('FORBIDDEN', {
+      message: 'Admin access requires ADMIN_TOKEN to be configured and sent as a bearer token',
+    }))
+  }
+
+  const record = await revokeApiKey(params.id)
+  if (!record) {
+    return errorResponse(new AppError('NOT_FOUND', { message: 'API key not found' }))
+  }
+
+  return NextResponse.json(describeApiKey(record))
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AppError } from '@/lib/errors'
+import { errorResponse } from '@/lib/api-error'
+import { apiKeyStore, createApiKey, describeApiKey, isAdminRequest, usageDate } from '@/lib/api-keys'
+import { parseJsonBody } from '@/lib/api-request'
+import { createApiKeyRequestSchema } from '@/lib/api-schemas'
+
+function forbidden() {
+  return errorResponse(new AppError('FORBIDDEN', {
+    message: 'Admin access requires ADMIN_TOKEN to be configured and sent as a bearer token',
+  }))
+}
+
+// Lists every key, including revoked ones, with today's usage
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) return forbidden()
+
+  const date = usageDate()
+  const keys = await Promise.all(
+    (await apiKeyStore.list()).map(async (record) => ({
+      ...describeApiKey(record),
+      usage: await apiKeyStore.getUsage(record.id, date),
+    }))
+  )
+
+  return NextResponse.json({ keys }, {
+    headers: {
+      'Cache-Control': 'no-cache',
+    },
+  })
+}
+
+// Creates a key. The plain key is only ever returned in this response.
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) return forbidden()
+
+  try {
+    const options = await parseJsonBody(request, createApiKeyRequestSchema)
+    const { key, record } = await createApiKey(options)
+
+    return NextResponse.json({ key, ...describeApiKey(record) }, { status: 201 })
+  } catch (error: any) {
+    if (error instanceof AppError) return errorResponse(error)
+    console.error('API key error:', error)
+    return errorResponse(new AppError('INTERNAL', { message: 'Failed to create API key' }))
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkRateLimit, RATE_LIMIT_POLICIES } from '@/lib/rate-limit'
+import { AppError } from '@/lib/errors'
+import { errorResponse } from '@/lib/api-error'
+import { downloadCost } from '@/lib/download'
+import { createBatchJob, jobStatus } from '@/lib/jobs'
+import { parseJsonBody } from '@/lib/api-request'
+import { batchRequestSchema } from '@/lib/api-schemas'
+
+// Starts a background job that downloads the selected videos one after
+// another into a single ZIP; poll GET /api/jobs/:id for progress. A video
+// that fails is listed in errors.txt instead of ending the archive.
+export async function POST(request: NextRequest) {
+  try {
+    const { videoIds, title, ...options } = await parseJsonBody(request, batchRequestSchema)
+
+    // Each video counts as a separate download
+    const cost = videoIds.length * downloadCost(options)
+    if (cost > RATE_LIMIT_POLICIES.download.limit) {
+      return errorResponse(new AppError('INVALID_REQUEST', { message: 'This batch is larger than the download rate limit allows. Select fewer videos or a lower quality.' }))
+    }
+
+    const limited = await checkRateLimit(request, 'download', cost)
+    if (limited) return limited
+
+    const job = createBatchJob({ videoIds, title: title || null }, options)
+
+    return NextResponse.json(jobStatus(job), {
+      status: 202,
+      headers: {
+        'Location': `/api/jobs/${job.id}`,
+      },
+    })
+  } catch (error: any) {
+    console.error('Batch error:', error)
+    return errorResponse(error)
+  }
+}
+
+// Handle CORS preflight
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkRateLimit } from '@/lib/rate-limit'
+import { parseYouTubeUrl, isVideoUrl } from '@/lib/youtube-url'
+import { getVideoInfo } from '@/lib/youtube'
+import { AppError } from '@/lib/errors'
+import { errorResponse } from '@/lib/api-error'
+import { CAPTION_FORMATS, fetchCaptionCues, findCaptionTrack, formatCaptions, listCaptionTracks } from '@/lib/captions'
+import { downloadFilename } from '@/lib/download'
+import { contentDisposition } from '@/lib/filename'
+import { parseQuery } from '@/lib/api-request'
+import { captionsQuerySchema } from '@/lib/api-schemas'
+
+// Without a track, lists the available caption tracks. With ?track= (a track
+// id or language code), returns that track converted to ?format=srt|vtt|txt.
+export async function GET(request: NextRequest) {
+  try {
+    const limited = await checkRateLimit(request, 'info')
+    if (limited) return limited
+
+    const { url, track: trackId, format } = parseQuery(request, captionsQuerySchema)
+
+    // Validate URL
+    const parsed = parseYouTubeUrl(url)
+    if (!parsed) {
+      return errorResponse(new AppError('INVALID_URL'))
+    }
+
+    if (!isVideoUrl(parsed)) {
+      return errorResponse(new AppError('INVALID_URL', { message: 'Could not extract video ID from URL' }))
+    }
+    const videoId = parsed.id
+
+    const videoInfo = await getVideoInfo(videoId)
+
+    if (!trackId) {
+      return NextResponse.json({ videoId, tracks: listCaptionTracks(videoInfo) }, {
+        headers: {
+          'Cache-Control': 'no-cache',
+        },
+      })
+    }
+
+    const track = findCaptionTrack(videoInfo, trackId)
+    if (!track) {
+      return errorResponse(new AppError('NOT_FOUND', { message: `No ${trackId} captions are available for this video.` }))
+    }
+
+    const captions = formatCaptions(await fetchCaptionCues(track), format)
+    // e.g. "Video title.en.srt"
+    const filename = downloadFilename(videoInfo, `${track.languageCode}.${CAPTION_FORMATS[format].extension}`)
+
+    return new NextResponse(captions, {
+      headers: {
+        'Content-Type': CAPTION_FORMATS[format].contentType,
+        'Content-Disposition': contentDisposition(filename),
+        'Cache-Control': 'no-cache',
+        'Access-Control-Expose-Headers': 'Content-Disposition',
+      },
+    })
+  } catch (error: any) {
+    console.error('Captions error:', error)
+    return errorResponse(error)
+  }
+}
+
+// Handle CORS preflight
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
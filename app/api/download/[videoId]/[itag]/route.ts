@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server'
+import ytdl from '@distube/ytdl-core'
+import { checkRateLimit } from '@/lib/rate-limit'
+import { evictOnStaleInfo, withVideoInfo } from '@/lib/youtube'
+import { AppError } from '@/lib/errors'
+import { errorResponse } from '@/lib/api-error'
+import { openFormat, formatSize, downloadFilename, firstChunk, toResponseStream } from '@/lib/download'
+import { contentDisposition } from '@/lib/filename'
+import { parseRange, readsFromStart, ByteRange } from '@/lib/http-range'
+import { resolveClientIdentity } from '@/lib/client-identity'
+import { meterStream } from '@/lib/api-keys'
+import { parseQuery } from '@/lib/api-request'
+import { formatQuerySchema } from '@/lib/api-schemas'
+
+interface RouteParams {
+  params: { videoId: string; itag: string }
+}
+
+// Raw bytes of a single YouTube format, addressable by URL so browsers and
+// download managers can pause and resume with Range requests. Formats are
+// passed through untouched; muxed or converted downloads use POST /api/download.
+async function serveFormat(request: NextRequest, { params }: RouteParams, includeBody: boolean) {
+  try {
+    // Only the request that starts a download counts against the limit, so
+    // HEAD requests and resumed or segmented reads of it do not use it up
+    if (includeBody && readsFromStart(request.headers.get('range'))) {
+      const limited = await checkRateLimit(request, 'download')
+      if (limited) return limited
+    }
+
+    const itag = parseInt(params.itag, 10)
+    if (!ytdl.validateID(params.videoId) || !itag) {
+      return errorResponse(new AppError('INVALID_REQUEST', { message: 'Invalid video ID or format' }))
+    }
+    const { filename: template } = parseQuery(request, formatQuerySchema)
+
+    const { apiKey } = await resolveClientIdentity(request)
+    // Stale URLs in a cached info surface on the first bytes, while the
+    // request can still be retried with fresh info
+    return await withVideoInfo(params.videoId, async (videoInfo) => {
+      const format = videoInfo.formats.find((f) => f.itag === itag && !f.isHLS && !f.isDashMPD)
+      if (!format) {
+        throw new AppError('FORMAT_UNAVAILABLE', { message: 'This format is not available for this video' })
+      }
+      const open = async (range?: ByteRange) => {
+        const stream = await firstChunk(openFormat(videoInfo, format, range))
+        evictOnStaleInfo(params.videoId, stream)
+        return toResponseStream(meterStream(apiKey, stream))
+      }
+      return formatResponse(request, videoInfo, format, template, includeBody, open)
+    })
+  } catch (error: any) {
+    console.error('Download error:', error)
+    return errorResponse(error)
+  }
+}
+
+// The response for one format: all of it, the requested range, or a 416
+async function formatResponse(
+  request: NextRequest,
+  videoInfo: ytdl.videoInfo,
+  format: ytdl.videoFormat,
+  template: string | undefined,
+  includeBody: boolean,
+  open: (range?: ByteRange) => Promise<ReadableStream>
+): Promise<NextResponse> {
+  const extension = format.container === 'mp4' && !format.hasVideo ? 'm4a' : format.container
+  const quality = format.qualityLabel || (format.audioBitrate ? `${format.audioBitrate}kbps` : null)
+  const filename = downloadFilename(videoInfo, extension, template, quality)
+  const headers: Record<string, string> = {
+    'Content-Type': format.mimeType?.split(';')[0] || 'application/octet-stream',
+    'Content-Disposition': contentDisposition(filename),
+    'Cache-Control': 'no-cache',
+    'Access-Control-Expose-Headers': 'Content-Disposition, Content-Length, Content-Range, Accept-Ranges',
+  }
+
+  // Without a known size there is nothing to resume against
+  const size = formatSize(format)
+  if (size === null) {
+    headers['Transfer-Encoding'] = 'chunked'
+    return new NextResponse(includeBody ? await open() : null, { headers })
+  }
+
+  headers['Accept-Ranges'] = 'bytes'
+  const range = parseRange(request.headers.get('range'), size)
+
+  if (range === 'unsatisfiable') {
+    return new NextResponse(null, {
+      status: 416,
+      headers: { ...headers, 'Content-Range': `bytes */${size}` },
+    })
+  }
+
+  if (range === null) {
+    headers['Content-Length'] = String(size)
+    return new NextResponse(includeBody ? await open() : null, { headers })
+  }
+
+  headers['Content-Length'] = String(range.end - range.start + 1)
+  headers['Content-Range'] = `bytes ${range.start}-${range.end}/${size}`
+  return new NextResponse(includeBody ? await open(range) : null, { status: 206, headers })
+}
+
+export async function GET(request: NextRequest, context: RouteParams) {
+  return serveFormat(request, context, true)
+}
+
+export async function HEAD(request: NextRequest, context: RouteParams) {
+  return serveFormat(request, context, false)
+}
+
+// Handle CORS preflight
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, HEAD, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, Range',
+    },
+  })
+}
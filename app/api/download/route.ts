@@ -1,328 +1,108 @@
 import { NextRequest, NextResponse } from 'next/server'
-import ytdl from '@distube/ytdl-core'
-import { rateLimit } from '@/lib/rate-limit'
-import { isValidYouTubeUrl, extractVideoId } from '@/lib/utils'
-import { Readable } from 'stream'
-
-// Vercel serverless function timeout is 60s for Hobby, 300s for Pro
-// We'll set a max timeout of 50s to be safe
-const MAX_DOWNLOAD_TIME = 50000
+import { checkRateLimit } from '@/lib/rate-limit'
+import { parseYouTubeUrl, isVideoUrl } from '@/lib/youtube-url'
+import { evictOnStaleInfo, withVideoInfo } from '@/lib/youtube'
+import { AppError } from '@/lib/errors'
+import { errorResponse } from '@/lib/api-error'
+import { prepareDownload, downloadCost, downloadFilename, firstChunk, toResponseStream } from '@/lib/download'
+import { contentDisposition } from '@/lib/filename'
+import { fileCache } from '@/lib/file-cache'
+import { resolveClientIdentity } from '@/lib/client-identity'
+import { meterStream, recordHistoryOnEnd } from '@/lib/api-keys'
+import { thumbnailUrl } from '@/lib/history'
+import { isLiveNow } from '@/lib/live'
+import { parseJsonBody } from '@/lib/api-request'
+import { downloadRequestSchema } from '@/lib/api-schemas'
 
 export async function POST(request: NextRequest) {
   try {
-    // Rate limiting
-    const ip = request.headers.get('x-forwarded-for') || 
-               request.headers.get('x-real-ip') || 
-               'unknown'
-    
-    // Rate limiting - more lenient for development
-    const rateLimitResult = rateLimit(ip)
-    if (!rateLimitResult.allowed) {
-      const resetInSeconds = Math.ceil((rateLimitResult.resetTime - Date.now()) / 1000)
-      return NextResponse.json(
-        { 
-          error: `Rate limit exceeded. Please try again in ${resetInSeconds} seconds.`,
-          resetTime: rateLimitResult.resetTime,
-          resetInSeconds
-        },
-        { status: 429 }
-      )
-    }
+    const { url, ...options } = await parseJsonBody(request, downloadRequestSchema)
 
-    const body = await request.json()
-    const { url, quality } = body
+    // Rate limiting - more lenient for development
+    const limited = await checkRateLimit(request, 'download', downloadCost(options))
+    if (limited) return limited
 
     // Validate URL
-    if (!url || !isValidYouTubeUrl(url)) {
-      return NextResponse.json(
-        { error: 'Invalid YouTube URL' },
-        { status: 400 }
-      )
-    }
-
-    const videoId = extractVideoId(url)
-    if (!videoId) {
-      return NextResponse.json(
-        { error: 'Could not extract video ID from URL' },
-        { status: 400 }
-      )
-    }
-
-    // Enhanced request options with latest headers
-    const requestOptions = {
-      requestOptions: {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-          'Accept': '*/*',
-          'Accept-Language': 'en-US,en;q=0.9',
-          'Accept-Encoding': 'gzip, deflate, br',
-          'Referer': 'https://www.youtube.com/',
-          'Origin': 'https://www.youtube.com',
-          'Sec-Fetch-Dest': 'empty',
-          'Sec-Fetch-Mode': 'cors',
-          'Sec-Fetch-Site': 'same-origin',
-        },
-      },
-    }
-
-    // Get video info with retry logic
-    let videoInfo
-    let retryCount = 0
-    const maxRetries = 3
-
-    while (retryCount < maxRetries) {
-      try {
-        videoInfo = await ytdl.getInfo(videoId, requestOptions)
-        break // Success, exit retry loop
-      } catch (error: any) {
-        retryCount++
-        
-        // Handle parsing errors specifically
-        if (error.message?.includes('parsing watch.html') || error.message?.includes('watch.html')) {
-          return NextResponse.json(
-            { 
-              error: 'YouTube has changed their page structure. The downloader library needs to be updated. Please try again later or use a different video.',
-              details: 'This is a known issue with YouTube downloaders. YouTube frequently updates their page structure to prevent automated downloads.'
-            },
-            { status: 503 }
-          )
-        }
-        
-        if (retryCount >= maxRetries) {
-          // Handle specific error codes
-          if (error.statusCode === 410) {
-            return NextResponse.json(
-              { error: 'Video is no longer available. YouTube may have removed it or changed access permissions.' },
-              { status: 410 }
-            )
-          }
-          if (error.statusCode === 403 || error.statusCode === 401) {
-            return NextResponse.json(
-              { error: 'Access to this video is restricted. It may be private or region-locked.' },
-              { status: 403 }
-            )
-          }
-          if (error.message?.includes('Private video') || error.message?.includes('Video unavailable') || error.message?.includes('not found')) {
-            return NextResponse.json(
-              { error: 'Video is unavailable or private' },
-              { status: 404 }
-            )
-          }
-          if (error.message?.includes('Sign in to confirm your age')) {
-            return NextResponse.json(
-              { error: 'This video requires age verification and cannot be downloaded.' },
-              { status: 403 }
-            )
-          }
-          throw error
-        }
-        
-        // Wait before retry (exponential backoff)
-        await new Promise(resolve => setTimeout(resolve, 1000 * retryCount))
-      }
-    }
-
-    if (!videoInfo) {
-      return NextResponse.json(
-        { error: 'Failed to retrieve video information after multiple attempts' },
-        { status: 500 }
-      )
-    }
-
-    // Map quality string to height
-    const qualityMap: { [key: string]: number } = {
-      '1080p': 1080,
-      '1440p': 1440,
-      '2160p': 2160,
-      '4320p': 4320,
+    const parsed = url ? parseYouTubeUrl(url) : null
+    if (!parsed) {
+      return errorResponse(new AppError('INVALID_URL'))
     }
 
-    const targetHeight = qualityMap[quality] || 1080
-
-    // Get available formats with multiple strategies
-    let formats = ytdl.filterFormats(videoInfo.formats, 'videoandaudio')
-    
-    // Strategy 1: Try combined video+audio formats first
-    let selectedFormat = formats.find(
-      (format) => format.height === targetHeight && format.hasAudio && format.hasVideo
-    )
-
-    // Strategy 2: Find closest quality >= target
-    if (!selectedFormat && formats.length > 0) {
-      formats.sort((a, b) => (b.height || 0) - (a.height || 0))
-      selectedFormat = formats.find(f => (f.height || 0) >= targetHeight) || formats[0]
+    if (!isVideoUrl(parsed)) {
+      return errorResponse(new AppError('INVALID_URL', { message: 'Could not extract video ID from URL' }))
     }
+    const videoId = parsed.id
 
-    // Strategy 3: If no combined formats, try separate video and audio (ytdl will merge)
-    if (!selectedFormat) {
-      const videoFormats = ytdl.filterFormats(videoInfo.formats, 'videoonly')
-      const audioFormats = ytdl.filterFormats(videoInfo.formats, 'audioonly')
-      
-      if (videoFormats.length > 0 && audioFormats.length > 0) {
-        // ytdl will automatically merge these
-        videoFormats.sort((a, b) => (b.height || 0) - (a.height || 0))
-        const bestVideo = videoFormats.find(f => (f.height || 0) >= targetHeight) || videoFormats[0]
-        selectedFormat = bestVideo
-      }
-    }
+    // The first bytes are awaited so that stale URLs in a cached info are
+    // caught while the request can still be retried with fresh info
+    const { videoInfo, cacheHit, download, cached, stream } = await withVideoInfo(videoId, async (videoInfo, cacheHit) => {
+      // A recording runs for minutes, far past the time limit of a response
+      if (isLiveNow(videoInfo)) throw new AppError('LIVE_STREAM')
 
-    if (!selectedFormat) {
-      return NextResponse.json(
-        { error: 'No suitable video format available. The video may be restricted or unavailable.' },
-        { status: 400 }
-      )
-    }
-
-    // Try to create stream with multiple fallback strategies
-    let stream: NodeJS.ReadableStream
-    let streamCreated = false
-    const streamStrategies = [
-      // Strategy 1: Use selected format directly
-      () => {
-        if (selectedFormat && selectedFormat.hasAudio && selectedFormat.hasVideo) {
-          return ytdl(url, {
-            format: selectedFormat,
-            ...requestOptions,
-          })
-        }
-        return null
-      },
-      // Strategy 2: Use quality filter
-      () => {
-        return ytdl(url, {
-          quality: 'highest',
-          filter: 'videoandaudio',
-          ...requestOptions,
-        })
-      },
-      // Strategy 3: Use any available format
-      () => {
-        return ytdl(url, {
-          quality: 'lowest',
-          filter: 'videoandaudio',
-          ...requestOptions,
+      const download = await prepareDownload(videoInfo, options)
+      if (!download) {
+        throw new AppError('FORMAT_UNAVAILABLE', {
+          message: options.mode === 'audio'
+            ? 'No audio format available for this video.'
+            : 'No suitable video format available. The video may be restricted or unavailable.'
         })
-      },
-    ]
-
-    for (const strategy of streamStrategies) {
-      try {
-        const testStream = strategy()
-        if (testStream) {
-          stream = testStream
-          streamCreated = true
-          break
-        }
-      } catch (err) {
-        // Try next strategy
-        continue
       }
-    }
 
-    if (!streamCreated || !stream) {
-      return NextResponse.json(
-        { error: 'Failed to create video stream. The video may be restricted or unavailable.' },
-        { status: 500 }
-      )
-    }
-
-    // Create a streaming response using ReadableStream
-    const readableStream = new ReadableStream({
-      async start(controller) {
-        const startTime = Date.now()
-        let hasError = false
+      // A finished copy of these exact formats is served straight from disk
+      const cached = fileCache ? await fileCache.get(download.cacheKey) : null
+      if (cached) return { videoInfo, cacheHit, download, cached, stream: cached.stream }
 
-        stream.on('data', (chunk: Buffer) => {
-          if (hasError) return
-          
-          // Check timeout
-          if (Date.now() - startTime > MAX_DOWNLOAD_TIME) {
-            stream.destroy()
-            controller.error(new Error('Download timeout'))
-            hasError = true
-            return
-          }
-          
-          try {
-            controller.enqueue(chunk)
-          } catch (err) {
-            hasError = true
-            stream.destroy()
-          }
-        })
-
-        stream.on('end', () => {
-          if (!hasError) {
-            controller.close()
-          }
-        })
-
-        stream.on('error', (error: Error) => {
-          hasError = true
-          // Check if it's a 410 error
-          if (error.message?.includes('410') || (error as any).statusCode === 410) {
-            controller.error(new Error('Video format is no longer available. Please try again or select a different quality.'))
-          } else {
-            controller.error(new Error(`Stream error: ${error.message}`))
-          }
-        })
-      },
-      cancel() {
-        stream.destroy()
-      },
+      const source = await firstChunk(download.open())
+      const stream = fileCache ? fileCache.store(download.cacheKey, source) : source
+      return { videoInfo, cacheHit, download, cached, stream }
     })
+    evictOnStaleInfo(videoId, stream)
+
+    const filename = downloadFilename(videoInfo, download.extension, options.filename, download.deliveredQuality)
+
+    // Stop pulling from YouTube (and ffmpeg) as soon as the client goes away
+    request.signal.addEventListener('abort', () => stream.destroy())
+
+    const headers: Record<string, string> = {
+      'Content-Type': download.contentType,
+      'Content-Disposition': contentDisposition(filename),
+      'Cache-Control': 'no-cache',
+      'X-Delivered-Quality': download.deliveredQuality,
+      'X-Info-Cache': cacheHit ? 'HIT' : 'MISS',
+      'Access-Control-Expose-Headers':
+        'Content-Disposition, Content-Length, X-Delivered-Quality, X-Estimated-Size, X-Format-Selection, X-Info-Cache, X-File-Cache',
+    }
+    if (fileCache) {
+      headers['X-File-Cache'] = cached ? 'HIT' : 'MISS'
+    }
+    if (download.explanation.length > 0) {
+      headers['X-Format-Selection'] = download.explanation.join(' ')
+    }
+    const contentLength = cached ? cached.size : download.contentLength
+    if (contentLength !== null) {
+      headers['Content-Length'] = String(contentLength)
+    } else {
+      headers['Transfer-Encoding'] = 'chunked'
+      // Muxed output is not byte-exact, but close enough for a progress bar
+      if (download.estimatedSize !== null) {
+        headers['X-Estimated-Size'] = String(download.estimatedSize)
+      }
+    }
 
-    const title = videoInfo.videoDetails.title.replace(/[^\w\s-]/g, '').trim()
-    const filename = `${title}.mp4`
-
-    return new NextResponse(readableStream, {
-      headers: {
-        'Content-Type': 'video/mp4',
-        'Content-Disposition': `attachment; filename="${encodeURIComponent(filename)}"`,
-        'Transfer-Encoding': 'chunked',
-        'Cache-Control': 'no-cache',
-      },
+    const { apiKey } = await resolveClientIdentity(request)
+    recordHistoryOnEnd(apiKey, stream, {
+      videoId,
+      url,
+      title: videoInfo.videoDetails.title,
+      thumbnail: thumbnailUrl(videoId),
+      mode: options.mode === 'audio' ? 'audio' : 'video',
+      deliveredQuality: download.deliveredQuality,
+      format: download.extension,
     })
+    return new NextResponse(toResponseStream(meterStream(apiKey, stream)), { headers })
   } catch (error: any) {
     console.error('Download error:', error)
-    
-    // Handle parsing errors
-    if (error.message?.includes('parsing watch.html') || error.message?.includes('watch.html')) {
-      return NextResponse.json(
-        { 
-          error: 'YouTube has changed their page structure. The downloader library needs to be updated. This is a temporary issue - please try again later.',
-          details: 'YouTube frequently updates their page structure. The library maintainers are working on a fix.'
-        },
-        { status: 503 }
-      )
-    }
-    
-    // Handle specific HTTP status codes
-    if (error.statusCode === 410 || error.message?.includes('410')) {
-      return NextResponse.json(
-        { error: 'Video format is no longer available. YouTube may have expired the download link. Please try again or select a different quality.' },
-        { status: 410 }
-      )
-    }
-    if (error.statusCode === 403 || error.message?.includes('403')) {
-      return NextResponse.json(
-        { error: 'Access to this video is restricted. It may be private or region-locked.' },
-        { status: 403 }
-      )
-    }
-    if (error.statusCode === 404 || error.message?.includes('404')) {
-      return NextResponse.json(
-        { error: 'Video not found. Please check the URL and try again.' },
-        { status: 404 }
-      )
-    }
-    
-    // Generic error message
-    const errorMessage = error.message || 'Failed to download video'
-    return NextResponse.json(
-      { error: errorMessage },
-      { status: error.statusCode || 500 }
-    )
+    return errorResponse(error)
   }
 }
 
@@ -333,7 +113,7 @@ export async function OPTIONS() {
     headers: {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
     },
   })
 }
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AppError } from '@/lib/errors'
+import { errorResponse } from '@/lib/api-error'
+import { apiKeyStore, authenticateApiKey, getBearerToken } from '@/lib/api-keys'
+import { ApiKeyRecord } from '@/lib/api-key-store'
+
+async function authenticate(request: NextRequest): Promise<ApiKeyRecord | NextResponse> {
+  const token = getBearerToken(request)
+  const apiKey = token ? await authenticateApiKey(token) : null
+  if (!apiKey) {
+    return errorResponse(
+      new AppError('UNAUTHORIZED', { message: token ? undefined : 'Send an API key as "Authorization: Bearer <key>"' }),
+      { 'WWW-Authenticate': 'Bearer' }
+    )
+  }
+  if (!apiKey.recordHistory) {
+    return errorResponse(new AppError('FORBIDDEN', {
+      message: 'History is not recorded for this API key. Ask an admin for a key created with recordHistory.',
+    }))
+  }
+  return apiKey
+}
+
+// Downloads made with the API key, newest first
+export async function GET(request: NextRequest) {
+  const apiKey = await authenticate(request)
+  if (apiKey instanceof NextResponse) return apiKey
+
+  return NextResponse.json({ entries: await apiKeyStore.listHistory(apiKey.id) }, {
+    headers: {
+      'Cache-Control': 'no-cache',
+    },
+  })
+}
+
+export async function DELETE(request: NextRequest) {
+  const apiKey = await authenticate(request)
+  if (apiKey instanceof NextResponse) return apiKey
+
+  await apiKeyStore.clearHistory(apiKey.id)
+  return new NextResponse(null, { status: 204 })
+}
+
+// Handle CORS preflight
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkRateLimit } from '@/lib/rate-limit'
+import { parseYouTubeUrl, isVideoUrl } from '@/lib/youtube-url'
+import { lookupVideoInfo, summarizeVideoInfo } from '@/lib/youtube'
+import { AppError } from '@/lib/errors'
+import { errorResponse } from '@/lib/api-error'
+import { parseQuery } from '@/lib/api-request'
+import { urlQuerySchema } from '@/lib/api-schemas'
+
+export async function GET(request: NextRequest) {
+  try {
+    const limited = await checkRateLimit(request, 'info')
+    if (limited) return limited
+
+    const { url } = parseQuery(request, urlQuerySchema)
+
+    // Validate URL
+    const parsed = parseYouTubeUrl(url)
+    if (!parsed) {
+      return errorResponse(new AppError('INVALID_URL'))
+    }
+
+    if (!isVideoUrl(parsed)) {
+      return errorResponse(new AppError('INVALID_URL', { message: 'Could not extract video ID from URL' }))
+    }
+    const videoId = parsed.id
+
+    const { videoInfo, cacheHit } = await lookupVideoInfo(videoId)
+
+    return NextResponse.json(summarizeVideoInfo(videoInfo), {
+      headers: {
+        'Cache-Control': 'no-cache',
+        'X-Info-Cache': cacheHit ? 'HIT' : 'MISS',
+      },
+    })
+  } catch (error: any) {
+    console.error('Info error:', error)
+    return errorResponse(error)
+  }
+}
+
+// Handle CORS preflight
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getJob } from '@/lib/jobs'
+import { jobStorage } from '@/lib/job-storage'
+import { toResponseStream } from '@/lib/download'
+import { parseRange } from '@/lib/http-range'
+import { AppError } from '@/lib/errors'
+import { errorResponse } from '@/lib/api-error'
+import { resolveClientIdentity } from '@/lib/client-identity'
+import { meterStream, recordHistoryOnEnd } from '@/lib/api-keys'
+import { thumbnailUrl } from '@/lib/history'
+import { contentDisposition } from '@/lib/filename'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const job = getJob(params.id)
+  if (!job) {
+    return errorResponse(new AppError('NOT_FOUND', { message: 'Job not found. It may have expired.' }))
+  }
+
+  if (job.state !== 'completed' || !job.filename || !job.contentType) {
+    return errorResponse(new AppError('NOT_READY', { message: `Job is ${job.state}, the file is not ready yet.` }))
+  }
+
+  const size = await jobStorage.size(job.id)
+  if (size === null) {
+    return errorResponse(new AppError('FILE_EXPIRED', { message: 'The file for this job is no longer available.' }))
+  }
+
+  const headers: Record<string, string> = {
+    'Content-Type': job.contentType,
+    'Content-Disposition': contentDisposition(job.filename),
+    'Cache-Control': 'no-cache',
+    'Accept-Ranges': 'bytes',
+    'Access-Control-Expose-Headers': 'Content-Disposition, Content-Length, Content-Range, Accept-Ranges',
+  }
+
+  const { apiKey } = await resolveClientIdentity(request)
+  const range = parseRange(request.headers.get('range'), size)
+  if (range === 'unsatisfiable') {
+    return new NextResponse(null, {
+      status: 416,
+      headers: { ...headers, 'Content-Range': `bytes */${size}` },
+    })
+  }
+
+  // Reading a local file is fast, so the serverless time cap does not apply
+  if (range === null) {
+    headers['Content-Length'] = String(size)
+    let stream = jobStorage.createReadStream(job.id)
+    // History lists single videos; a batch ZIP has no one video to show
+    if (job.videoId) {
+      stream = recordHistoryOnEnd(apiKey, stream, {
+        videoId: job.videoId,
+        url: `https://www.youtube.com/watch?v=${job.videoId}`,
+        title: job.title || job.videoId,
+        thumbnail: thumbnailUrl(job.videoId),
+        mode: job.options.mode === 'audio' ? 'audio' : 'video',
+        deliveredQuality: job.deliveredQuality,
+        format: job.filename.split('.').pop() || '',
+      })
+    }
+    return new NextResponse(toResponseStream(meterStream(apiKey, stream), Infinity), { headers })
+  }
+
+  headers['Content-Length'] = String(range.end - range.start + 1)
+  headers['Content-Range'] = `bytes ${range.start}-${range.end}/${size}`
+  return new NextResponse(toResponseStream(meterStream(apiKey, jobStorage.createReadStream(job.id, range)), Infinity), {
+    status: 206,
+    headers,
+  })
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getJob, jobStatus } from '@/lib/jobs'
+import { AppError } from '@/lib/errors'
+import { errorResponse } from '@/lib/api-error'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const job = getJob(params.id)
+  if (!job) {
+    return errorResponse(new AppError('NOT_FOUND', { message: 'Job not found. It may have expired.' }))
+  }
+
+  return NextResponse.json(jobStatus(job), {
+    headers: {
+      'Cache-Control': 'no-cache',
+    },
+  })
+}
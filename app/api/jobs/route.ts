@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkRateLimit } from '@/lib/rate-limit'
+import { parseYouTubeUrl, isVideoUrl } from '@/lib/youtube-url'
+import { AppError } from '@/lib/errors'
+import { errorResponse } from '@/lib/api-error'
+import { createJob, jobStatus } from '@/lib/jobs'
+import { downloadCost } from '@/lib/download'
+import { parseJsonBody } from '@/lib/api-request'
+import { downloadRequestSchema } from '@/lib/api-schemas'
+
+// Starts a background download; poll GET /api/jobs/:id for progress
+export async function POST(request: NextRequest) {
+  try {
+    const { url, ...options } = await parseJsonBody(request, downloadRequestSchema)
+
+    const limited = await checkRateLimit(request, 'download', downloadCost(options))
+    if (limited) return limited
+
+    // Validate URL
+    const parsed = url ? parseYouTubeUrl(url) : null
+    if (!parsed) {
+      return errorResponse(new AppError('INVALID_URL'))
+    }
+
+    if (!isVideoUrl(parsed)) {
+      return errorResponse(new AppError('INVALID_URL', { message: 'Could not extract video ID from URL' }))
+    }
+    const videoId = parsed.id
+
+    const job = createJob(videoId, options)
+
+    return NextResponse.json(jobStatus(job), {
+      status: 202,
+      headers: {
+        'Location': `/api/jobs/${job.id}`,
+      },
+    })
+  } catch (error: any) {
+    console.error('Job error:', error)
+    return errorResponse(error)
+  }
+}
+
+// Handle CORS preflight
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
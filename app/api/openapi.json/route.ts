@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server'
+import { openApiDocument } from '@/lib/openapi'
+
+// Machine-readable description of the API, for client generators and API explorers
+export async function GET() {
+  return NextResponse.json(openApiDocument(), {
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Cache-Control': 'public, max-age=3600',
+    },
+  })
+}
+
+// Handle CORS preflight
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
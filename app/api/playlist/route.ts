@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkRateLimit } from '@/lib/rate-limit'
+import { parseYouTubeUrl } from '@/lib/youtube-url'
+import { getPlaylist } from '@/lib/playlist'
+import { AppError } from '@/lib/errors'
+import { errorResponse } from '@/lib/api-error'
+import { parseQuery } from '@/lib/api-request'
+import { urlQuerySchema } from '@/lib/api-schemas'
+
+export async function GET(request: NextRequest) {
+  try {
+    const limited = await checkRateLimit(request, 'playlist')
+    if (limited) return limited
+
+    const { url } = parseQuery(request, urlQuerySchema)
+
+    // Validate URL
+    const parsed = parseYouTubeUrl(url)
+    if (!parsed) {
+      return errorResponse(new AppError('INVALID_URL'))
+    }
+
+    // A video opened from a playlist (watch?v=...&list=...) lists that playlist
+    const playlistId = parsed.type === 'channel' ? null : parsed.list
+    if (!playlistId && parsed.type !== 'channel') {
+      return errorResponse(new AppError('INVALID_URL', { message: 'URL is not a playlist or channel' }))
+    }
+
+    const playlist = await getPlaylist(playlistId || parsed.canonicalUrl)
+
+    return NextResponse.json(playlist, {
+      headers: {
+        'Cache-Control': 'no-cache',
+      },
+    })
+  } catch (error: any) {
+    console.error('Playlist error:', error)
+    return errorResponse(error)
+  }
+}
+
+// Handle CORS preflight
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
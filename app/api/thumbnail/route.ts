@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkRateLimit } from '@/lib/rate-limit'
+import { parseYouTubeUrl, isVideoUrl } from '@/lib/youtube-url'
+import { getVideoInfo } from '@/lib/youtube'
+import { AppError } from '@/lib/errors'
+import { errorResponse } from '@/lib/api-error'
+import { downloadFilename, toResponseStream } from '@/lib/download'
+import { contentDisposition } from '@/lib/filename'
+import { convertImage, fetchImage, IMAGE_FORMATS } from '@/lib/thumbnails'
+import { parseQuery } from '@/lib/api-request'
+import { thumbnailQuerySchema } from '@/lib/api-schemas'
+
+// The largest available thumbnail (or, with ?source=channel, the channel
+// picture), converted to ?format=jpeg|webp|png
+export async function GET(request: NextRequest) {
+  try {
+    const limited = await checkRateLimit(request, 'info')
+    if (limited) return limited
+
+    const { url, format, source } = parseQuery(request, thumbnailQuerySchema)
+
+    // Validate URL
+    const parsed = parseYouTubeUrl(url)
+    if (!parsed) {
+      return errorResponse(new AppError('INVALID_URL'))
+    }
+
+    if (!isVideoUrl(parsed)) {
+      return errorResponse(new AppError('INVALID_URL', { message: 'Could not extract video ID from URL' }))
+    }
+    const videoId = parsed.id
+
+    const videoInfo = await getVideoInfo(videoId)
+    const image = await fetchImage(videoInfo, source)
+    const { contentType, extension } = IMAGE_FORMATS[format]
+    // e.g. "Video title.channel.png"
+    const filename = downloadFilename(videoInfo, source === 'channel' ? `channel.${extension}` : extension)
+
+    return new NextResponse(toResponseStream(convertImage(image, format)), {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': contentDisposition(filename),
+        'Cache-Control': 'no-cache',
+        'X-Image-Size': `${image.width}x${image.height}`,
+        'Access-Control-Expose-Headers': 'Content-Disposition, X-Image-Size',
+      },
+    })
+  } catch (error: any) {
+    console.error('Thumbnail error:', error)
+    return errorResponse(error)
+  }
+}
+
+// Handle CORS preflight
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
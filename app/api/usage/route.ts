@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AppError } from '@/lib/errors'
+import { errorResponse } from '@/lib/api-error'
+import { apiKeyStore, authenticateApiKey, describeApiKey, getBearerToken, quotaResetTime, usageDate } from '@/lib/api-keys'
+
+// Today's usage and quotas for the API key making the request
+export async function GET(request: NextRequest) {
+  const token = getBearerToken(request)
+  const apiKey = token ? await authenticateApiKey(token) : null
+  if (!apiKey) {
+    return errorResponse(
+      new AppError('UNAUTHORIZED', { message: token ? undefined : 'Send an API key as "Authorization: Bearer <key>"' }),
+      { 'WWW-Authenticate': 'Bearer' }
+    )
+  }
+
+  const usage = await apiKeyStore.getUsage(apiKey.id, usageDate())
+
+  return NextResponse.json({
+    key: describeApiKey(apiKey),
+    date: usage.date,
+    requests: { used: usage.requests, limit: apiKey.dailyRequestQuota },
+    bytes: { used: usage.bytes, limit: apiKey.dailyByteQuota },
+    resetTime: quotaResetTime(),
+  }, {
+    headers: {
+      'Cache-Control': 'no-cache',
+    },
+  })
+}
+
+// Handle CORS preflight
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  })
+}
@@ -1,6 +1,7 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
+import Image from 'next/image'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import {
@@ -17,79 +18,330 @@ import {
   CardHeader,
   CardTitle,
 } from '@/components/ui/card'
-import { Download, Loader2, AlertCircle } from 'lucide-react'
-import { isValidYouTubeUrl } from '@/lib/utils'
+import { Download, Loader2, AlertCircle, Film, Music, Radio, X } from 'lucide-react'
+import { parseTimestamp, formatDuration, formatBytes } from '@/lib/utils'
+import { parseYouTubeUrl, isVideoUrl } from '@/lib/youtube-url'
+import { streamDownload, runDownloadJob, canPickSaveFile, MAX_BUFFERED_BYTES } from '@/lib/download-client'
+import { api } from '@/lib/api-client'
+import { MAX_LIVE_MINUTES, type DownloadRequest } from '@/lib/api-schemas'
+import { PlaylistQueue } from '@/components/playlist-queue'
+import { DownloadProgress, DownloadProgressState } from '@/components/download-progress'
+import { ErrorAlert } from '@/components/error-alert'
+import { CaptionDownload, trackLabel } from '@/components/caption-download'
+import { ThumbnailDownload } from '@/components/thumbnail-download'
+import { DownloadHistory, useDownloadHistory } from '@/components/download-history'
+import { AppError, classifyError } from '@/lib/errors'
+import type { VideoInfoSummary } from '@/lib/youtube'
+import { DownloadHistoryEntry, thumbnailUrl } from '@/lib/history'
+import {
+  DEFAULT_FILENAME_TEMPLATE,
+  FILENAME_TEMPLATE_PRESETS,
+  renderFilename,
+  validateFilenameTemplate,
+} from '@/lib/filename'
+
+const QUALITY_NAMES: { [key: string]: string } = {
+  '720p': 'HD',
+  '1080p': 'Full HD',
+  '1440p': '2K',
+  '2160p': '4K UHD',
+  '4320p': '8K',
+}
+
+// Videos longer than this are downloaded through a background job
+const BACKGROUND_JOB_SECONDS = 10 * 60
+
+// Largest known size among the video formats at a given height
+function approxSizeFor(info: VideoInfoSummary, quality: string): number | null {
+  const height = parseInt(quality, 10)
+  const sizes = info.formats
+    .filter((format) => format.hasVideo && format.height === height && format.approxSize)
+    .map((format) => format.approxSize as number)
+  return sizes.length > 0 ? Math.max(...sizes) : null
+}
 
 export default function Home() {
   const [url, setUrl] = useState('')
   const [quality, setQuality] = useState('1080p')
   const [loading, setLoading] = useState(false)
-  const [error, setError] = useState<string | null>(null)
+  const [container, setContainer] = useState('mp4')
+  const [mode, setMode] = useState<'video' | 'audio'>('video')
+  const [audioFormat, setAudioFormat] = useState('m4a')
+  const [subtitles, setSubtitles] = useState('none')
+  const [codec, setCodec] = useState('any')
+  const [frameRate, setFrameRate] = useState('any')
+  const [allowHdr, setAllowHdr] = useState(false)
+  const [clipStart, setClipStart] = useState('')
+  const [clipEnd, setClipEnd] = useState('')
+  const [accurate, setAccurate] = useState(false)
+  const [embedThumbnail, setEmbedThumbnail] = useState(false)
+  const [embedMetadata, setEmbedMetadata] = useState(false)
+  const [saveToDisk, setSaveToDisk] = useState(false)
+  const [canSaveToDisk, setCanSaveToDisk] = useState(false)
+  const [filenameTemplate, setFilenameTemplate] = useState(DEFAULT_FILENAME_TEMPLATE)
+  const [liveFrom, setLiveFrom] = useState<'now' | 'start'>('now')
+  const [liveMinutes, setLiveMinutes] = useState('30')
+  const [splitChapters, setSplitChapters] = useState(false)
+  const [selectedChapters, setSelectedChapters] = useState<number[]>([])
+  const [error, setError] = useState<AppError | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [info, setInfo] = useState<VideoInfoSummary | null>(null)
+  const [infoLoading, setInfoLoading] = useState(false)
+  const [progress, setProgress] = useState<DownloadProgressState | null>(null)
+  const history = useDownloadHistory()
+  const abortRef = useRef<AbortController | null>(null)
+
+  const parsedUrl = parseYouTubeUrl(url)
+  const videoId = isVideoUrl(parsedUrl) ? parsedUrl.id : null
+
+  // Only known in the browser, so checked after the first render
+  useEffect(() => {
+    setCanSaveToDisk(canPickSaveFile())
+  }, [])
+
+  // A pasted link with t= starts the clip there
+  useEffect(() => {
+    const parsed = parseYouTubeUrl(url)
+    const start = isVideoUrl(parsed) ? parsed.timestamp : null
+    setClipStart(start ? formatDuration(start) : '')
+    setClipEnd('')
+  }, [url])
+
+  // Fetch a metadata preview whenever a valid URL is entered
+  useEffect(() => {
+    setInfo(null)
+    if (!isVideoUrl(parseYouTubeUrl(url))) return
+
+    const controller = new AbortController()
+    const timer = setTimeout(async () => {
+      setInfoLoading(true)
+      setError(null)
+      try {
+        const summary = await api.info(url, { signal: controller.signal })
+        setInfo(summary)
+        setSelectedChapters(summary.chapters.map((_, index) => index + 1))
+        setQuality((current) =>
+          summary.qualities.includes(current)
+            ? current
+            : summary.qualities.find((q) => parseInt(q, 10) <= 1080) || summary.qualities[0] || current
+        )
+      } catch (err: any) {
+        if (err.name !== 'AbortError') {
+          setError(classifyError(err))
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setInfoLoading(false)
+        }
+      }
+    }, 500)
+
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+      setInfoLoading(false)
+    }
+  }, [url])
+
+  const captionTracks = info?.captions || []
+  // A stream that is still going is recorded rather than downloaded
+  const isLive = !!info?.live?.isLiveNow
+  const chapters = info?.chapters || []
+  // Chapter numbers count from 1, as the API expects them
+  const splitting = splitChapters && chapters.length > 0 && !isLive
+  const downloadOptions: DownloadRequest = {
+    url,
+    quality,
+    // The selects only offer values the API accepts
+    container: container as DownloadRequest['container'],
+    mode,
+    audioFormat: audioFormat as DownloadRequest['audioFormat'],
+    // Only embed a track the current video actually has
+    subtitles: captionTracks.some((track) => track.id === subtitles) ? subtitles : undefined,
+    codec: codec !== 'any' ? codec : undefined,
+    maxFps: frameRate !== 'any' ? parseInt(frameRate, 10) : undefined,
+    hdr: allowHdr || undefined,
+    start: (!isLive && !splitting && clipStart.trim()) || undefined,
+    end: (!isLive && !splitting && clipEnd.trim()) || undefined,
+    accurate: (!isLive && accurate) || undefined,
+    // WebM (Opus) has nowhere to put a picture
+    embedThumbnail: (embedThumbnail && !(mode === 'audio' && audioFormat === 'opus')) || undefined,
+    embedMetadata: embedMetadata || undefined,
+    filename: filenameTemplate !== DEFAULT_FILENAME_TEMPLATE ? filenameTemplate : undefined,
+    live: isLive ? liveFrom : undefined,
+    // Left empty, the recording runs until the stream ends or MAX_LIVE_MINUTES pass
+    liveMinutes: isLive && parseFloat(liveMinutes) > 0 ? parseFloat(liveMinutes) : undefined,
+    chapters: splitting
+      ? selectedChapters.length === chapters.length ? 'all' : selectedChapters
+      : undefined,
+  }
+  const playlistUrl = parsedUrl && (parsedUrl.type === 'channel' || parsedUrl.list) ? url : null
+  const extension = mode === 'audio' ? (audioFormat === 'opus' ? 'webm' : audioFormat) : container
+  // Split chapters come as a ZIP of files with the media extension
+  const fileExtension = splitting ? 'zip' : extension
+  const filenameError = validateFilenameTemplate(filenameTemplate)
+  // The name the server will give the file, unless a lower quality is delivered
+  const filenamePreview = info && !filenameError
+    ? renderFilename(filenameTemplate, {
+      title: info.title,
+      channel: info.channel,
+      id: info.videoId,
+      date: info.uploadDate,
+      quality: mode === 'video' ? quality : null,
+      ext: fileExtension,
+    })
+    : null
+  const qualities = info ? info.qualities : ['1080p', '1440p', '2160p', '4320p']
+  const thumbnail = info?.thumbnails[info.thumbnails.length - 1]
+  // Length of what will actually be downloaded, for the background job cutoff
+  const clipSeconds = !info
+    ? 0
+    : splitting
+      ? chapters
+        .filter((_, index) => selectedChapters.includes(index + 1))
+        .reduce((total, chapter) => total + chapter.end - chapter.start, 0)
+      : (parseTimestamp(clipEnd || info.durationSeconds) ?? info.durationSeconds) - (parseTimestamp(clipStart || 0) ?? 0)
+  // Roughly how large a video download will be, to decide whether it can be
+  // streamed to the page or needs a background job
+  const fullSize = info && mode === 'video' ? approxSizeFor(info, quality) : null
+  const estimatedSize = fullSize && info?.durationSeconds
+    ? Math.round(fullSize * clipSeconds / info.durationSeconds)
+    : null
+
+  const toggleChapter = (number: number) => {
+    setSelectedChapters((current) =>
+      current.includes(number)
+        ? current.filter((selected) => selected !== number)
+        : [...current, number].sort((a, b) => a - b)
+    )
+  }
+
+  // The next step down for "Try another quality": a lower resolution, or
+  // M4A for audio since it needs no conversion
+  const fallbackQuality = mode === 'video'
+    ? qualities.find((q) => parseInt(q, 10) < parseInt(quality, 10)) || null
+    : audioFormat !== 'm4a' ? 'm4a' : null
+
+  const changeQuality = () => {
+    if (!fallbackQuality) return
+    if (mode === 'video') {
+      setQuality(fallbackQuality)
+    } else {
+      setAudioFormat(fallbackQuality)
+    }
+    setError(null)
+    setNotice(`Switched to ${mode === 'video' ? fallbackQuality : 'M4A'}. Press download to try again.`)
+  }
 
-  const handleDownload = async () => {
+  const handleDownload = async (inBackground = false) => {
     setError(null)
+    setNotice(null)
     
     if (!url.trim()) {
-      setError('Please enter a YouTube URL')
+      setError(new AppError('INVALID_URL', { message: 'Please enter a YouTube URL' }))
       return
     }
 
-    if (!isValidYouTubeUrl(url)) {
-      setError('Please enter a valid YouTube URL')
+    if (!parsedUrl) {
+      setError(new AppError('INVALID_URL'))
       return
     }
 
-    setLoading(true)
+    if (!videoId) {
+      setError(new AppError('INVALID_URL', { message: 'Select videos from the playlist below to download them' }))
+      return
+    }
 
-    try {
-      const response = await fetch('/api/download', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ url, quality }),
-      })
+    if (filenameError) {
+      setError(new AppError('INVALID_REQUEST', { message: filenameError }))
+      return
+    }
 
-      if (!response.ok) {
-        const data = await response.json()
-        throw new Error(data.error || 'Failed to download video')
-      }
+    if (splitting && selectedChapters.length === 0) {
+      setError(new AppError('INVALID_REQUEST', { message: 'Select at least one chapter to download' }))
+      return
+    }
+
+    setLoading(true)
+    const controller = new AbortController()
+    abortRef.current = controller
 
-      // Get the blob from response
-      const blob = await response.blob()
-      
-      // Get filename from Content-Disposition header or use default
-      const contentDisposition = response.headers.get('Content-Disposition')
-      let filename = 'video.mp4'
-      if (contentDisposition) {
-        const filenameMatch = contentDisposition.match(/filename[^;=\n]*=((['"]).*?\2|[^;\n]*)/)
-        if (filenameMatch && filenameMatch[1]) {
-          filename = filenameMatch[1].replace(/['"]/g, '')
-          // Decode URI component if needed
-          try {
-            filename = decodeURIComponent(filename)
-          } catch (e) {
-            // If decoding fails, use as is
+    try {
+      let deliveredQuality: string | null
+      let size: number | null
+      if (inBackground || isLive || clipSeconds > BACKGROUND_JOB_SECONDS || (estimatedSize ?? 0) > MAX_BUFFERED_BYTES) {
+        // Long or large videos and live recordings would hit the 50s function
+        // timeout, so run them as a job; also offered as a retry after a timeout
+        const status = await runDownloadJob(downloadOptions, (job) =>
+          setProgress({
+            label: job.state === 'queued'
+              ? 'Waiting in queue...'
+              : isLive ? 'Recording on server...' : 'Downloading on server...',
+            bytesDownloaded: job.bytesDownloaded,
+            totalBytes: job.totalBytes,
+            bytesPerSecond: job.bytesPerSecond,
+            etaSeconds: job.etaSeconds,
+          }),
+          controller.signal
+        )
+        deliveredQuality = status.deliveredQuality
+        size = status.bytesDownloaded || null
+      } else {
+        const saved = await streamDownload(
+          downloadOptions,
+          `${mode}.${fileExtension}`,
+          {
+            signal: controller.signal,
+            suggestedName: filenamePreview || undefined,
+            saveToDisk: canSaveToDisk && saveToDisk,
+            onProgress: (received) => setProgress({ label: 'Downloading...', ...received }),
           }
-        }
+        )
+        deliveredQuality = saved.deliveredQuality
+        size = saved.size
       }
 
-      // Create a temporary link and trigger download
-      const downloadUrl = window.URL.createObjectURL(blob)
-      const link = document.createElement('a')
-      link.href = downloadUrl
-      link.download = filename
-      document.body.appendChild(link)
-      link.click()
-      document.body.removeChild(link)
-      window.URL.revokeObjectURL(downloadUrl)
+      history.add({
+        videoId,
+        url,
+        title: info?.title || videoId,
+        thumbnail: thumbnailUrl(videoId),
+        mode,
+        deliveredQuality,
+        format: extension,
+        size,
+      })
+
+      if (mode === 'video' && deliveredQuality && deliveredQuality !== quality) {
+        setNotice(`${quality} was not available for this video, so it was downloaded in ${deliveredQuality}.`)
+      }
 
       setUrl('') // Clear URL after successful download
     } catch (err: any) {
-      setError(err.message || 'An error occurred while downloading the video')
+      if (err.name === 'AbortError') {
+        setNotice('Download cancelled.')
+      } else {
+        setError(classifyError(err))
+      }
     } finally {
+      abortRef.current = null
       setLoading(false)
+      setProgress(null)
+    }
+  }
+
+  const handleRedownload = (entry: DownloadHistoryEntry) => {
+    setError(null)
+    setUrl(entry.url)
+    setMode(entry.mode)
+    if (entry.mode === 'audio') {
+      setAudioFormat(entry.format === 'webm' ? 'opus' : entry.format)
+    } else {
+      setContainer(entry.format)
+      if (entry.deliveredQuality) setQuality(entry.deliveredQuality.replace(/^(\d+p).*/, '$1'))
     }
+    setNotice('Loaded from history. Press download to get it again.')
+    window.scrollTo({ top: 0, behavior: 'smooth' })
   }
 
   return (
@@ -132,32 +384,361 @@ export default function Home() {
                 />
               </div>
 
+              {infoLoading && (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Loading video details...
+                </div>
+              )}
+
+              {info && (
+                <div className="flex gap-4 rounded-md border p-3">
+                  {thumbnail && (
+                    <Image
+                      src={thumbnail.url}
+                      alt={info.title}
+                      width={160}
+                      height={90}
+                      className="h-[90px] w-[160px] shrink-0 rounded object-cover"
+                    />
+                  )}
+                  <div className="min-w-0 space-y-1">
+                    <p className="font-medium leading-tight line-clamp-2">{info.title}</p>
+                    <p className="text-sm text-muted-foreground truncate">{info.channel}</p>
+                    {isLive ? (
+                      <p className="flex items-center gap-1 text-sm font-medium text-red-600">
+                        <Radio className="h-4 w-4" />
+                        Live now
+                      </p>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">
+                        {formatDuration(info.durationSeconds)}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              )}
+
               <div className="space-y-2">
-                <label htmlFor="quality" className="text-sm font-medium">
-                  Video Quality
+                <span className="text-sm font-medium">Download Type</span>
+                <div className="grid grid-cols-2 gap-2">
+                  <Button
+                    type="button"
+                    variant={mode === 'video' ? 'default' : 'outline'}
+                    onClick={() => setMode('video')}
+                    disabled={loading}
+                  >
+                    <Film className="mr-2 h-4 w-4" />
+                    Video
+                  </Button>
+                  <Button
+                    type="button"
+                    variant={mode === 'audio' ? 'default' : 'outline'}
+                    onClick={() => setMode('audio')}
+                    disabled={loading}
+                  >
+                    <Music className="mr-2 h-4 w-4" />
+                    Audio only
+                  </Button>
+                </div>
+              </div>
+
+              {mode === 'video' ? (
+                <>
+                  <div className="space-y-2">
+                    <label htmlFor="quality" className="text-sm font-medium">
+                      Video Quality
+                    </label>
+                    <Select value={quality} onValueChange={setQuality} disabled={loading}>
+                      <SelectTrigger id="quality">
+                        <SelectValue placeholder="Select quality" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {qualities.map((q) => {
+                          const size = info ? approxSizeFor(info, q) : null
+                          return (
+                            <SelectItem key={q} value={q}>
+                              {q}
+                              {QUALITY_NAMES[q] && ` (${QUALITY_NAMES[q]})`}
+                              {size && ` · ~${formatBytes(size)}`}
+                            </SelectItem>
+                          )
+                        })}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <label htmlFor="container" className="text-sm font-medium">
+                      File Format
+                    </label>
+                    <Select value={container} onValueChange={setContainer} disabled={loading}>
+                      <SelectTrigger id="container">
+                        <SelectValue placeholder="Select format" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="mp4">MP4 (most compatible)</SelectItem>
+                        <SelectItem value="mkv">MKV (any codec)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-2">
+                    <div className="space-y-2">
+                      <label htmlFor="codec" className="text-sm font-medium">
+                        Video Codec
+                      </label>
+                      <Select value={codec} onValueChange={setCodec} disabled={loading}>
+                        <SelectTrigger id="codec">
+                          <SelectValue placeholder="Any" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="any">Any</SelectItem>
+                          <SelectItem value="avc1">H.264 (plays everywhere)</SelectItem>
+                          <SelectItem value="vp9">VP9</SelectItem>
+                          <SelectItem value="av1">AV1 (smallest files)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <label htmlFor="frameRate" className="text-sm font-medium">
+                        Frame Rate
+                      </label>
+                      <Select value={frameRate} onValueChange={setFrameRate} disabled={loading}>
+                        <SelectTrigger id="frameRate">
+                          <SelectValue placeholder="Highest" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="any">Highest</SelectItem>
+                          <SelectItem value="30">Up to 30 fps</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+
+                  <label className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={allowHdr}
+                      onChange={(e) => setAllowHdr(e.target.checked)}
+                      disabled={loading}
+                    />
+                    Allow HDR (needs an HDR-capable player)
+                  </label>
+
+                  {captionTracks.length > 0 && (
+                    <div className="space-y-2">
+                      <label htmlFor="subtitles" className="text-sm font-medium">
+                        Embedded Subtitles
+                      </label>
+                      <Select value={downloadOptions.subtitles || 'none'} onValueChange={setSubtitles} disabled={loading}>
+                        <SelectTrigger id="subtitles">
+                          <SelectValue placeholder="None" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">None</SelectItem>
+                          {captionTracks.map((track) => (
+                            <SelectItem key={track.id} value={track.id}>
+                              {trackLabel(track)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                </>
+              ) : (
+                <div className="space-y-2">
+                  <label htmlFor="audioFormat" className="text-sm font-medium">
+                    Audio Format
+                  </label>
+                  <Select value={audioFormat} onValueChange={setAudioFormat} disabled={loading}>
+                    <SelectTrigger id="audioFormat">
+                      <SelectValue placeholder="Select format" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="m4a">M4A (AAC, original quality)</SelectItem>
+                      <SelectItem value="opus">Opus (WebM, original quality)</SelectItem>
+                      <SelectItem value="mp3">MP3 (converted)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {!(mode === 'audio' && audioFormat === 'opus') && (
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={embedThumbnail}
+                    onChange={(e) => setEmbedThumbnail(e.target.checked)}
+                    disabled={loading}
+                  />
+                  {mode === 'audio' ? 'Embed thumbnail as cover art' : 'Embed thumbnail as an attached picture'}
+                </label>
+              )}
+
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={embedMetadata}
+                  onChange={(e) => setEmbedMetadata(e.target.checked)}
+                  disabled={loading}
+                />
+                Add tags and chapters (title, channel, upload date, description)
+              </label>
+
+              {canSaveToDisk && (
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={saveToDisk}
+                    onChange={(e) => setSaveToDisk(e.target.checked)}
+                    disabled={loading}
+                  />
+                  Choose where to save, and write the file there as it downloads
                 </label>
-                <Select value={quality} onValueChange={setQuality} disabled={loading}>
-                  <SelectTrigger id="quality">
-                    <SelectValue placeholder="Select quality" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="1080p">1080p (Full HD)</SelectItem>
-                    <SelectItem value="1440p">1440p (2K)</SelectItem>
-                    <SelectItem value="2160p">2160p (4K UHD)</SelectItem>
-                    <SelectItem value="4320p">4320p (8K)</SelectItem>
-                  </SelectContent>
-                </Select>
+              )}
+
+              <div className="space-y-2">
+                <label htmlFor="filename" className="text-sm font-medium">
+                  File Name
+                </label>
+                <Input
+                  id="filename"
+                  list="filename-templates"
+                  value={filenameTemplate}
+                  onChange={(e) => setFilenameTemplate(e.target.value)}
+                  disabled={loading}
+                />
+                <datalist id="filename-templates">
+                  {FILENAME_TEMPLATE_PRESETS.map((preset) => <option key={preset} value={preset} />)}
+                </datalist>
+                <p className={`text-xs ${filenameError ? 'text-destructive' : 'text-muted-foreground'}`}>
+                  {filenameError || filenamePreview || 'Placeholders: {title}, {channel}, {id}, {date}, {quality}, {height}, {ext}'}
+                </p>
               </div>
 
+              {isLive && (
+                <div className="space-y-2">
+                  <span className="text-sm font-medium">Live Recording</span>
+                  <div className="grid grid-cols-2 gap-2">
+                    <Select value={liveFrom} onValueChange={(value) => setLiveFrom(value as 'now' | 'start')} disabled={loading}>
+                      <SelectTrigger aria-label="Record from">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="now">From now</SelectItem>
+                        <SelectItem value="start">From the start</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      aria-label="Minutes to record"
+                      type="number"
+                      min="1"
+                      placeholder={`Minutes (until it ends, at most ${MAX_LIVE_MINUTES / 60} hours)`}
+                      value={liveMinutes}
+                      onChange={(e) => setLiveMinutes(e.target.value)}
+                      disabled={loading}
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {liveFrom === 'start'
+                      ? 'Starts from the oldest part YouTube still keeps, which may not be the very beginning.'
+                      : 'Starts from the live edge.'}
+                    {' '}Recordings run on the server; leave the minutes empty to record until the stream ends, up to {MAX_LIVE_MINUTES / 60} hours.
+                  </p>
+                </div>
+              )}
+
+              {chapters.length > 0 && !isLive && (
+                <div className="space-y-2">
+                  <span className="text-sm font-medium">Chapters</span>
+                  <div className="max-h-48 space-y-1 overflow-y-auto rounded-md border p-2">
+                    {chapters.map((chapter, index) => (
+                      <label key={index} className="flex items-center gap-2 text-sm">
+                        {splitting && (
+                          <input
+                            type="checkbox"
+                            checked={selectedChapters.includes(index + 1)}
+                            onChange={() => toggleChapter(index + 1)}
+                            disabled={loading}
+                          />
+                        )}
+                        <span className="shrink-0 tabular-nums text-muted-foreground">{formatDuration(chapter.start)}</span>
+                        <span className="truncate">{chapter.title}</span>
+                      </label>
+                    ))}
+                  </div>
+                  <label className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={splitChapters}
+                      onChange={(e) => setSplitChapters(e.target.checked)}
+                      disabled={loading}
+                    />
+                    Save each chapter as its own file (ZIP, tagged with track numbers)
+                  </label>
+                </div>
+              )}
+
+              {!isLive && !splitting && (
+                <div className="space-y-2">
+                  <span className="text-sm font-medium">Clip (optional)</span>
+                  <div className="grid grid-cols-2 gap-2">
+                    <Input
+                      aria-label="Clip start"
+                      placeholder="Start, e.g. 1:30"
+                      value={clipStart}
+                      onChange={(e) => setClipStart(e.target.value)}
+                      disabled={loading}
+                    />
+                    <Input
+                      aria-label="Clip end"
+                      placeholder={info ? `End, e.g. ${formatDuration(info.durationSeconds)}` : 'End'}
+                      value={clipEnd}
+                      onChange={(e) => setClipEnd(e.target.value)}
+                      disabled={loading}
+                    />
+                  </div>
+                  {mode === 'video' && (clipStart || clipEnd) && (
+                    <label className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={accurate}
+                        onChange={(e) => setAccurate(e.target.checked)}
+                        disabled={loading}
+                      />
+                      Frame-accurate cut (re-encodes, slower)
+                    </label>
+                  )}
+                </div>
+              )}
+
+              {captionTracks.length > 0 && <CaptionDownload url={url} tracks={captionTracks} />}
+
+              {info && <ThumbnailDownload url={url} />}
+
               {error && (
-                <div className="flex items-center gap-2 p-3 rounded-md bg-destructive/10 text-destructive text-sm">
+                <ErrorAlert
+                  error={error}
+                  onRetry={videoId ? () => handleDownload() : undefined}
+                  onChangeQuality={fallbackQuality ? changeQuality : undefined}
+                  onBackgroundJob={videoId ? () => handleDownload(true) : undefined}
+                  youtubeUrl={videoId ? `https://www.youtube.com/watch?v=${videoId}` : null}
+                />
+              )}
+
+              {progress && <DownloadProgress {...progress} />}
+
+              {notice && (
+                <div className="flex items-center gap-2 p-3 rounded-md bg-muted text-muted-foreground text-sm">
                   <AlertCircle className="h-4 w-4" />
-                  <span>{error}</span>
+                  <span>{notice}</span>
                 </div>
               )}
 
               <Button
-                onClick={handleDownload}
+                onClick={() => handleDownload()}
                 disabled={loading || !url.trim()}
                 className="w-full"
                 size="lg"
@@ -170,17 +751,34 @@ export default function Home() {
                 ) : (
                   <>
                     <Download className="mr-2 h-4 w-4" />
-                    Download Video
+                    {mode === 'audio' ? 'Download Audio' : 'Download Video'}
                   </>
                 )}
               </Button>
+
+              {loading && (
+                <Button
+                  variant="outline"
+                  onClick={() => abortRef.current?.abort()}
+                  className="w-full"
+                >
+                  <X className="mr-2 h-4 w-4" />
+                  Cancel
+                </Button>
+              )}
             </CardContent>
           </Card>
 
+          {playlistUrl && (
+            <PlaylistQueue url={playlistUrl} options={{ quality, mode, container: downloadOptions.container, audioFormat: downloadOptions.audioFormat, filename: downloadOptions.filename }} />
+          )}
+
+          <DownloadHistory history={history} onRedownload={handleRedownload} disabled={loading} />
+
           <div className="mt-8 text-center text-sm text-muted-foreground">
             <p>
-              Note: Downloads are limited to 10 requests per minute per IP address.
-              Videos are downloaded in MP4 format with audio included.
+              Note: Downloads are rate limited per IP address, or per API key for scripts.
+              Videos are downloaded with audio included.
             </p>
           </div>
         </div>
@@ -0,0 +1,22 @@
+#!/usr/bin/env node
+// Runs the CLI compiled by `npm run build:cli`. tsc leaves the "@/..." import
+// aliases as they are, so they are resolved against the build output here.
+
+const Module = require('module')
+const path = require('path')
+
+const root = path.join(__dirname, '..', 'dist', 'cli')
+const resolveFilename = Module._resolveFilename
+Module._resolveFilename = function (request, ...rest) {
+  return resolveFilename.call(this, request.startsWith('@/') ? path.join(root, request.slice(2)) : request, ...rest)
+}
+
+require(path.join(root, 'cli', 'ytdl-web.js'))
+  .main(process.argv.slice(2))
+  .then((code) => {
+    process.exitCode = code
+  })
+  .catch((error) => {
+    console.error(error)
+    process.exitCode = 1
+  })
@@ -0,0 +1,281 @@
+// One download from the CLI: run it as a background job on the server, then
+// fetch the finished file with Range requests so an interrupted transfer
+// picks up where it stopped. Job ids and finished files are remembered in a
+// state file in the output directory, so running the same command again
+// skips what is done and resumes what is not.
+
+import fs from 'fs'
+import path from 'path'
+import { ApiClient } from '@/lib/api-client'
+import { DownloadRequest } from '@/lib/api-schemas'
+import { AppError, classifyError } from '@/lib/errors'
+import { filenameFromContentDisposition, sanitizeFilename } from '@/lib/filename'
+import { ItemProgress } from './progress'
+
+const STATE_FILE = '.ytdl-web-state.json'
+const JOB_POLL_INTERVAL = 1000
+// Waits for a rate limit do not use up retries, but a server that never
+// lets a request through should still end the run
+const MAX_RATE_LIMIT_WAITS = 20
+const PROGRESS_INTERVAL = 250
+
+interface SavedState {
+  jobId: string | null
+  filename: string | null // set once the file is complete
+}
+
+export interface DownloadContext {
+  api: ApiClient
+  outDir: string
+  retries: number
+  resume: boolean
+  state: StateFile
+  gate: RateLimitGate
+  onProgress: (progress: ItemProgress) => void
+  onNotice: (message: string) => void
+}
+
+export interface DownloadResult {
+  path: string
+  skipped: boolean // already downloaded by an earlier run
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Holds every worker back until a 429's resetInSeconds has passed, so one
+// rate-limited request does not turn into a burst of them
+export function createRateLimitGate() {
+  let until = 0
+  return {
+    async wait() {
+      while (Date.now() < until) await sleep(until - Date.now())
+    },
+    pause(seconds: number) {
+      until = Math.max(until, Date.now() + seconds * 1000)
+    },
+  }
+}
+
+export type RateLimitGate = ReturnType<typeof createRateLimitGate>
+
+// Saved state per URL and options. Writes are chained so concurrent workers
+// do not interleave them.
+export async function loadStateFile(outDir: string) {
+  const file = path.join(outDir, STATE_FILE)
+  let entries: { [key: string]: SavedState } = {}
+  try {
+    entries = JSON.parse(await fs.promises.readFile(file, 'utf8'))
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') throw error
+  }
+
+  let writing = Promise.resolve()
+  return {
+    get: (key: string): SavedState | undefined => entries[key],
+    set(key: string, value: SavedState | null) {
+      if (value) {
+        entries[key] = value
+      } else {
+        delete entries[key]
+      }
+      const contents = JSON.stringify(entries, null, 2) + '\n'
+      writing = writing.then(async () => {
+        await fs.promises.writeFile(`${file}.tmp`, contents)
+        await fs.promises.rename(`${file}.tmp`, file)
+      })
+      return writing
+    },
+  }
+}
+
+export type StateFile = Awaited<ReturnType<typeof loadStateFile>>
+
+async function fileSize(file: string): Promise<number> {
+  try {
+    return (await fs.promises.stat(file)).size
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return 0
+    throw error
+  }
+}
+
+// "name.mp4", or "name (2).mp4" and so on when that is taken. The name is
+// reserved by creating it empty, so concurrent workers never pick the same one.
+async function freePath(dir: string, filename: string): Promise<string> {
+  const extension = path.extname(filename)
+  const stem = filename.slice(0, filename.length - extension.length)
+  for (let copy = 1; ; copy++) {
+    const candidate = path.join(dir, copy === 1 ? filename : `${stem} (${copy})${extension}`)
+    try {
+      await (await fs.promises.open(candidate, 'wx')).close()
+      return candidate
+    } catch (error: any) {
+      if (error.code !== 'EEXIST') throw error
+    }
+  }
+}
+
+// fetch reports a refused connection, or one dropped mid-body, as a bare TypeError
+function toAppError(error: any): AppError {
+  if (error instanceof TypeError && (error.message === 'fetch failed' || error.message === 'terminated')) {
+    return new AppError('NETWORK_ERROR', { details: (error.cause as Error | undefined)?.message })
+  }
+  return classifyError(error)
+}
+
+// The job once it has completed or failed
+async function waitForJob(context: DownloadContext, jobId: string) {
+  while (true) {
+    const status = await context.api.job(jobId)
+    if (status.state === 'completed' || status.state === 'failed') return status
+
+    context.onProgress({
+      phase: status.state === 'queued' ? 'queued' : 'server',
+      bytesDownloaded: status.bytesDownloaded,
+      totalBytes: status.totalBytes,
+      bytesPerSecond: status.bytesPerSecond,
+      etaSeconds: status.etaSeconds,
+    })
+    await sleep(JOB_POLL_INTERVAL)
+  }
+}
+
+// Append the rest of the job's file to the .part file
+async function transferFile(context: DownloadContext, jobId: string, partPath: string, totalBytes: number | null) {
+  let offset = await fileSize(partPath)
+  if (totalBytes !== null && offset > totalBytes) {
+    await fs.promises.rm(partPath)
+    offset = 0
+  }
+
+  const response = await context.api.jobFile(jobId, { offset: offset > 0 && offset !== totalBytes ? offset : undefined })
+  const filename = filenameFromContentDisposition(response.headers.get('Content-Disposition') || '')
+  if (offset === totalBytes) {
+    await response.body?.cancel()
+    return filename
+  }
+
+  // A 200 to a Range request means the server sent the whole file again
+  const append = offset > 0 && response.status === 206
+  const output = fs.createWriteStream(partPath, { flags: append ? 'a' : 'w' })
+  const startTime = Date.now()
+  const startBytes = append ? offset : 0
+  let received = startBytes
+  let lastReport = 0
+
+  try {
+    const reader = response.body!.getReader()
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      received += value.length
+      if (!output.write(value)) {
+        await new Promise<void>((resolve) => output.once('drain', () => resolve()))
+      }
+
+      if (Date.now() - lastReport > PROGRESS_INTERVAL) {
+        lastReport = Date.now()
+        const bytesPerSecond = Math.round((received - startBytes) / Math.max(0.001, (Date.now() - startTime) / 1000))
+        context.onProgress({
+          phase: 'transfer',
+          bytesDownloaded: received,
+          totalBytes,
+          bytesPerSecond,
+          etaSeconds: totalBytes && bytesPerSecond ? Math.round((totalBytes - received) / bytesPerSecond) : null,
+        })
+      }
+    }
+  } finally {
+    await new Promise<void>((resolve) => output.end(() => resolve()))
+  }
+
+  if (totalBytes !== null && received !== totalBytes) {
+    throw new AppError('NETWORK_ERROR', { message: `The transfer stopped after ${received} of ${totalBytes} bytes` })
+  }
+  return filename
+}
+
+// One pass: reuse or start the job, wait for it and fetch the file
+async function attempt(context: DownloadContext, key: string, request: DownloadRequest): Promise<string> {
+  const { api, state } = context
+  let jobId = state.get(key)?.jobId || null
+
+  let status = null
+  if (jobId) {
+    try {
+      status = await waitForJob(context, jobId)
+    } catch (error: any) {
+      // Finished jobs are removed after an hour; start over with a new one
+      if (toAppError(error).code !== 'NOT_FOUND') throw error
+      await fs.promises.rm(path.join(context.outDir, `.${jobId}.part`), { force: true })
+      jobId = null
+    }
+  }
+  if (!jobId) {
+    await context.gate.wait()
+    jobId = (await api.createJob(request)).id
+    await state.set(key, { jobId, filename: null })
+    status = await waitForJob(context, jobId)
+  }
+
+  // A failed job cannot be resumed, so a retry starts a new one
+  if (status!.state === 'failed') {
+    await state.set(key, null)
+    throw new AppError(status!.errorCode || 'INTERNAL', { message: status!.error || 'Download failed' })
+  }
+
+  const partPath = path.join(context.outDir, `.${jobId}.part`)
+  const served = await transferFile(context, jobId, partPath, status!.totalBytes)
+  const filename = sanitizeFilename(path.basename(served || ''), '', jobId)
+  const finalPath = await freePath(context.outDir, filename)
+  await fs.promises.rename(partPath, finalPath)
+  await state.set(key, { jobId, filename: path.basename(finalPath) })
+  return finalPath
+}
+
+export async function downloadItem(context: DownloadContext, request: DownloadRequest): Promise<DownloadResult> {
+  const { state, outDir } = context
+  const key = JSON.stringify(request)
+
+  const saved = state.get(key)
+  if (saved && !context.resume) {
+    await state.set(key, null)
+  } else if (saved?.filename && fs.existsSync(path.join(outDir, saved.filename))) {
+    return { path: path.join(outDir, saved.filename), skipped: true }
+  }
+
+  let failures = 0
+  let rateLimitWaits = 0
+  while (true) {
+    try {
+      return { path: await attempt(context, key, request), skipped: false }
+    } catch (error: any) {
+      // Failing to write the file is not something a retry fixes
+      if (error.syscall) throw error
+      const appError = toAppError(error)
+
+      if (appError.code === 'RATE_LIMITED' && rateLimitWaits < MAX_RATE_LIMIT_WAITS) {
+        rateLimitWaits++
+        const seconds = appError.resetInSeconds ?? 60
+        context.onNotice(`rate limited, waiting ${seconds}s`)
+        context.gate.pause(seconds)
+        continue
+      }
+
+      // A quota only resets at midnight UTC, so retrying would not help
+      if (!appError.retryable || appError.code === 'QUOTA_EXCEEDED' || appError.code === 'RATE_LIMITED' || failures >= context.retries) {
+        throw appError
+      }
+      failures++
+
+      // Only a dropped transfer is resumed; anything else gets a fresh job
+      const jobId = state.get(key)?.jobId
+      if (jobId && appError.code !== 'NETWORK_ERROR') {
+        await fs.promises.rm(path.join(outDir, `.${jobId}.part`), { force: true })
+        await state.set(key, null)
+      }
+      context.onNotice(`${appError.message} (retry ${failures} of ${context.retries})`)
+      await sleep(1000 * 2 ** failures)
+    }
+  }
+}
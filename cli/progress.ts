@@ -0,0 +1,99 @@
+// Progress output for the CLI. On a terminal, one line per active download is
+// redrawn in place; when piped, only state changes are logged so the output
+// stays readable in CI logs.
+
+import { formatBytes, formatDuration } from '@/lib/utils'
+
+export interface ItemProgress {
+  phase: 'queued' | 'server' | 'transfer'
+  bytesDownloaded: number
+  totalBytes: number | null
+  bytesPerSecond: number | null
+  etaSeconds: number | null
+}
+
+export interface ProgressDisplay {
+  update(label: string, progress: ItemProgress): void
+  // A permanent line, e.g. a finished or failed download
+  log(message: string): void
+  remove(label: string): void
+  close(): void
+}
+
+const RENDER_INTERVAL = 200
+const PHASE_LABELS = { queued: 'queued', server: 'on server', transfer: 'saving' }
+
+function describe(label: string, { phase, bytesDownloaded, totalBytes, bytesPerSecond, etaSeconds }: ItemProgress): string {
+  const parts = [label, PHASE_LABELS[phase]]
+  if (phase !== 'queued') {
+    const percent = totalBytes ? ` ${Math.min(100, Math.floor((bytesDownloaded / totalBytes) * 100))}%` : ''
+    parts.push(`${formatBytes(bytesDownloaded)}${totalBytes ? ` / ${formatBytes(totalBytes)}` : ''}${percent}`)
+    if (bytesPerSecond) parts.push(`${formatBytes(bytesPerSecond)}/s`)
+    if (etaSeconds !== null) parts.push(`ETA ${formatDuration(etaSeconds)}`)
+  }
+  return parts.join('  ')
+}
+
+export function createProgressDisplay(stream: NodeJS.WriteStream = process.stderr, quiet = false): ProgressDisplay {
+  const active = new Map<string, ItemProgress>()
+  const phases = new Map<string, ItemProgress['phase']>()
+
+  if (quiet) {
+    return { update() {}, log() {}, remove() {}, close() {} }
+  }
+
+  if (!stream.isTTY) {
+    return {
+      update(label, progress) {
+        if (phases.get(label) === progress.phase) return
+        phases.set(label, progress.phase)
+        stream.write(`${label}: ${PHASE_LABELS[progress.phase]}\n`)
+      },
+      log: (message) => stream.write(`${message}\n`),
+      remove: (label) => phases.delete(label),
+      close() {},
+    }
+  }
+
+  let drawnLines = 0
+  let timer: NodeJS.Timeout | null = null
+
+  const render = (logged: string[] = []) => {
+    timer = null
+    const width = stream.columns || 80
+    // Move back to the first progress line and clear everything below it
+    let output = drawnLines > 0 ? `\x1b[${drawnLines}F\x1b[0J` : ''
+    logged.forEach((message) => {
+      output += `${message}\n`
+    })
+    active.forEach((progress, label) => {
+      output += `${describe(label, progress).slice(0, width - 1)}\n`
+    })
+    drawnLines = active.size
+    stream.write(output)
+  }
+
+  const scheduleRender = () => {
+    timer ??= setTimeout(render, RENDER_INTERVAL)
+  }
+
+  return {
+    update(label, progress) {
+      active.set(label, progress)
+      scheduleRender()
+    },
+    log(message) {
+      if (timer) clearTimeout(timer)
+      render([message])
+    },
+    remove(label) {
+      active.delete(label)
+      scheduleRender()
+    },
+    close() {
+      if (timer) clearTimeout(timer)
+      active.clear()
+      render()
+    },
+  }
+}
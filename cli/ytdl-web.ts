@@ -0,0 +1,242 @@
+// ytdl-web: download through a running instance of this app from the shell.
+//
+//   ytdl-web get <url...> [--quality 1080p] [--audio] [--out dir] [--input urls.txt]
+//
+// Build with `npm run build:cli`; bin/ytdl-web.js runs the compiled output.
+
+import fs from 'fs'
+import path from 'path'
+import { parseArgs } from 'util'
+import { createApiClient } from '@/lib/api-client'
+import { DownloadRequest, downloadRequestSchema, parseInput } from '@/lib/api-schemas'
+import { AppError, ErrorCode } from '@/lib/errors'
+import { createProgressDisplay } from './progress'
+import { createRateLimitGate, downloadItem, loadStateFile } from './download'
+
+const USAGE = `Usage: ytdl-web get [url...] [options]
+
+Downloads each URL through a ytdl-web server as a background job, then saves
+the file to --out. Running the same command again skips finished files and
+resumes interrupted ones.
+
+Options:
+  -q, --quality <height>      Maximum video quality, e.g. 720p (default 1080p)
+  -a, --audio                 Audio only
+  -f, --format <format>       Audio format: m4a, opus or mp3 (default m4a)
+  -c, --container <format>    Video container: mp4 or mkv (default mp4)
+      --filename <template>   Filename template, e.g. "{channel} - {title}.{ext}"
+      --chapters <all|1,3,...>
+                              Save each chapter (or the listed ones) as its own
+                              file, bundled as a ZIP
+      --live <now|start>      For a stream that is live: record from now, or from
+                              the start of what YouTube keeps
+      --live-minutes <n>      How long to record a live stream (default: until it ends)
+  -o, --out <dir>             Where to save files (default: current directory)
+  -i, --input <file>          Read URLs from a file, one per line; "-" for stdin
+  -j, --concurrency <n>       Downloads at a time (default 2)
+      --retries <n>           Retries for errors that may pass (default 3)
+      --fresh                 Ignore saved progress and download everything again
+      --server <url>          Server URL (default $YTDL_WEB_SERVER or http://localhost:3000)
+      --key <key>             API key (default $YTDL_WEB_API_KEY)
+      --quiet                 Only print the paths of saved files
+  -h, --help                  Show this help
+
+Exit codes: 0 all downloaded, 2 usage error, 3 invalid URL or request (or a
+live stream without --live), 4 video unavailable or not live yet, 5 no usable
+format, 6 rate limit or quota, 7 API key rejected, 8 server or network error,
+9 could not write the file; 1 when downloads failed for more than one of these
+reasons.`
+
+const EXIT_MIXED = 1
+const EXIT_USAGE = 2
+const EXIT_FILE = 9
+
+// Failure classes a script can branch on
+const EXIT_CODES: { [code in ErrorCode]: number } = {
+  INVALID_REQUEST: 3,
+  INVALID_URL: 3,
+  VIDEO_UNAVAILABLE: 4,
+  VIDEO_PRIVATE: 4,
+  AGE_RESTRICTED: 4,
+  REGION_LOCKED: 4,
+  ACCESS_DENIED: 4,
+  PLAYLIST_UNAVAILABLE: 4,
+  LIVE_UPCOMING: 4,
+  LIVE_STREAM: 3,
+  FORMAT_UNAVAILABLE: 5,
+  FORMAT_EXPIRED: 5,
+  FFMPEG_MISSING: 5,
+  RATE_LIMITED: 6,
+  QUOTA_EXCEEDED: 6,
+  UNAUTHORIZED: 7,
+  FORBIDDEN: 7,
+  NOT_FOUND: 8,
+  NOT_READY: 8,
+  FILE_EXPIRED: 8,
+  TIMEOUT: 8,
+  NETWORK_ERROR: 8,
+  UPSTREAM_ERROR: 8,
+  EXTRACTOR_BROKEN: 8,
+  INTERNAL: 8,
+}
+
+class UsageError extends Error {}
+
+function wholeNumber(value: string | undefined, name: string, fallback: number, min: number): number {
+  if (value === undefined) return fallback
+  const number = Number(value)
+  if (!Number.isInteger(number) || number < min) {
+    throw new UsageError(`--${name} must be a whole number, at least ${min}`)
+  }
+  return number
+}
+
+// URLs from a file or stdin: one per line, blank lines and # comments skipped
+async function readUrls(input: string): Promise<string[]> {
+  const text = input === '-'
+    ? await new Promise<string>((resolve, reject) => {
+      let data = ''
+      process.stdin.setEncoding('utf8')
+      process.stdin.on('data', (chunk) => { data += chunk })
+      process.stdin.on('end', () => resolve(data))
+      process.stdin.on('error', reject)
+    })
+    : await fs.promises.readFile(input, 'utf8')
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'))
+}
+
+// Run the tasks with at most `limit` in flight
+async function runPool<T>(items: T[], limit: number, task: (item: T, index: number) => Promise<void>) {
+  let next = 0
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++
+      await task(items[index], index)
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker))
+}
+
+async function get(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      quality: { type: 'string', short: 'q' },
+      audio: { type: 'boolean', short: 'a' },
+      format: { type: 'string', short: 'f' },
+      container: { type: 'string', short: 'c' },
+      filename: { type: 'string' },
+      chapters: { type: 'string' },
+      live: { type: 'string' },
+      'live-minutes': { type: 'string' },
+      out: { type: 'string', short: 'o' },
+      input: { type: 'string', short: 'i' },
+      concurrency: { type: 'string', short: 'j' },
+      retries: { type: 'string' },
+      fresh: { type: 'boolean' },
+      server: { type: 'string' },
+      key: { type: 'string' },
+      quiet: { type: 'boolean' },
+    },
+  })
+
+  const urls = [...positionals, ...(values.input ? await readUrls(values.input) : [])]
+  if (urls.length === 0) {
+    throw new UsageError('Give at least one URL, or a file of URLs with --input')
+  }
+
+  const options: Omit<DownloadRequest, 'url'> = {
+    mode: values.audio ? 'audio' : 'video',
+    quality: values.quality,
+    audioFormat: values.format as DownloadRequest['audioFormat'],
+    container: values.container as DownloadRequest['container'],
+    filename: values.filename,
+    chapters: values.chapters === undefined || values.chapters === 'all'
+      ? values.chapters
+      : values.chapters.split(',').map((number) => Number(number.trim())),
+    live: values.live as DownloadRequest['live'],
+    liveMinutes: values['live-minutes'] === undefined ? undefined : Number(values['live-minutes']),
+  }
+  // Check the options once rather than failing every download the same way
+  try {
+    parseInput(downloadRequestSchema, { ...options, url: urls[0] })
+  } catch (error: any) {
+    throw new UsageError(error.message)
+  }
+
+  const outDir = path.resolve(values.out || '.')
+  await fs.promises.mkdir(outDir, { recursive: true })
+
+  const api = createApiClient({
+    baseUrl: (values.server || process.env.YTDL_WEB_SERVER || 'http://localhost:3000').replace(/\/+$/, ''),
+    token: values.key || process.env.YTDL_WEB_API_KEY,
+  })
+  const display = createProgressDisplay(process.stderr, values.quiet)
+  const state = await loadStateFile(outDir)
+  const gate = createRateLimitGate()
+  const retries = wholeNumber(values.retries, 'retries', 3, 0)
+  const concurrency = wholeNumber(values.concurrency, 'concurrency', 2, 1)
+  const failures: { url: string; error: any }[] = []
+  const width = String(urls.length).length
+
+  await runPool(urls, concurrency, async (url, index) => {
+    const label = `[${String(index + 1).padStart(width)}/${urls.length}] ${url}`
+    try {
+      const result = await downloadItem({
+        api,
+        outDir,
+        retries,
+        resume: !values.fresh,
+        state,
+        gate,
+        onProgress: (progress) => display.update(label, progress),
+        onNotice: (message) => display.log(`${label}: ${message}`),
+      }, { ...options, url })
+
+      display.remove(label)
+      display.log(`${label}: ${result.skipped ? 'already downloaded' : 'saved'} ${path.relative(process.cwd(), result.path)}`)
+      // Paths on stdout for scripts; on a terminal the progress log already shows them
+      if (values.quiet || !process.stdout.isTTY) process.stdout.write(`${result.path}\n`)
+    } catch (error: any) {
+      display.remove(label)
+      display.log(`${label}: failed: ${error.message}`)
+      failures.push({ url, error })
+    }
+  })
+  display.close()
+
+  if (failures.length === 0) return 0
+  if (!values.quiet) {
+    process.stderr.write(`${failures.length} of ${urls.length} downloads failed\n`)
+  }
+  // File system errors (ENOSPC, EACCES...) come through as they are, not as AppErrors
+  const codes = new Set(failures.map(({ error }) =>
+    error instanceof AppError ? EXIT_CODES[error.code] : error.syscall ? EXIT_FILE : EXIT_CODES.INTERNAL
+  ))
+  return codes.size === 1 ? Array.from(codes)[0] : EXIT_MIXED
+}
+
+export async function main(argv: string[]): Promise<number> {
+  const [command, ...args] = argv
+  try {
+    if (!command || command === '-h' || command === '--help' || args.includes('-h') || args.includes('--help')) {
+      process.stdout.write(`${USAGE}\n`)
+      return command ? 0 : EXIT_USAGE
+    }
+    if (command !== 'get') {
+      throw new UsageError(`Unknown command "${command}"`)
+    }
+    return await get(args)
+  } catch (error: any) {
+    // parseArgs reports unknown and malformed options with ERR_PARSE_ARGS_* codes
+    if (error instanceof UsageError || error.code?.startsWith('ERR_PARSE_ARGS')) {
+      process.stderr.write(`ytdl-web: ${error.message}\nRun "ytdl-web --help" for usage.\n`)
+      return EXIT_USAGE
+    }
+    throw error
+  }
+}
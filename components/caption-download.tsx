@@ -0,0 +1,83 @@
+'use client'
+
+import { useState } from 'react'
+import { Captions, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { saveResponse } from '@/lib/download-client'
+import { api } from '@/lib/api-client'
+import type { CaptionTrackSummary } from '@/lib/captions'
+import type { CaptionsQuery } from '@/lib/api-schemas'
+
+interface CaptionDownloadProps {
+  url: string
+  tracks: CaptionTrackSummary[]
+}
+
+export function trackLabel(track: CaptionTrackSummary): string {
+  return track.autoGenerated ? `${track.name} (auto-generated)` : track.name
+}
+
+// Download a caption track on its own, converted to SRT, WebVTT or text
+export function CaptionDownload({ url, tracks }: CaptionDownloadProps) {
+  const [trackId, setTrackId] = useState(tracks[0].id)
+  const [format, setFormat] = useState('srt')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // The track list changes with the video, so fall back to its first track
+  const selectedId = tracks.some((track) => track.id === trackId) ? trackId : tracks[0].id
+
+  const download = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const query = { url, track: selectedId, format: format as CaptionsQuery['format'] }
+      await saveResponse(await api.captions(query), `captions.${format}`)
+    } catch (err: any) {
+      setError(err.message || 'Failed to download captions')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <span className="text-sm font-medium">Captions</span>
+      <div className="flex gap-2">
+        <Select value={selectedId} onValueChange={setTrackId} disabled={loading}>
+          <SelectTrigger className="flex-1" aria-label="Caption language">
+            <SelectValue placeholder="Select language" />
+          </SelectTrigger>
+          <SelectContent>
+            {tracks.map((track) => (
+              <SelectItem key={track.id} value={track.id}>
+                {trackLabel(track)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={format} onValueChange={setFormat} disabled={loading}>
+          <SelectTrigger className="w-28" aria-label="Caption format">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="srt">SRT</SelectItem>
+            <SelectItem value="vtt">WebVTT</SelectItem>
+            <SelectItem value="txt">Text</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button variant="outline" onClick={download} disabled={loading} aria-label="Download captions">
+          {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Captions className="h-4 w-4" />}
+        </Button>
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  )
+}
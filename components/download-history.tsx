@@ -0,0 +1,171 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Image from 'next/image'
+import { FileJson, FileSpreadsheet, History, RotateCw, Search, Trash2, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { formatBytes } from '@/lib/utils'
+import { saveBlob } from '@/lib/download-client'
+import {
+  DownloadHistoryEntry,
+  addHistoryEntry,
+  createHistoryEntry,
+  historyToCsv,
+  loadHistory,
+  saveHistory,
+  searchHistory,
+} from '@/lib/history'
+
+export interface DownloadHistoryState {
+  entries: DownloadHistoryEntry[]
+  add(fields: Omit<DownloadHistoryEntry, 'id' | 'downloadedAt'>): void
+  remove(id: string): void
+  clear(): void
+}
+
+// History persisted in localStorage. It is read after mounting, since the
+// server render has no localStorage to read from.
+export function useDownloadHistory(): DownloadHistoryState {
+  const [entries, setEntries] = useState<DownloadHistoryEntry[]>([])
+
+  useEffect(() => {
+    setEntries(loadHistory())
+  }, [])
+
+  const update = (change: (current: DownloadHistoryEntry[]) => DownloadHistoryEntry[]) => {
+    setEntries((current) => {
+      const next = change(current)
+      saveHistory(next)
+      return next
+    })
+  }
+
+  return {
+    entries,
+    add: (fields) => update((current) => addHistoryEntry(current, createHistoryEntry(fields))),
+    remove: (id) => update((current) => current.filter((entry) => entry.id !== id)),
+    clear: () => update(() => []),
+  }
+}
+
+interface DownloadHistoryProps {
+  history: DownloadHistoryState
+  onRedownload: (entry: DownloadHistoryEntry) => void
+  disabled?: boolean
+}
+
+// Recent downloads, with search, re-download, clearing and export
+export function DownloadHistory({ history, onRedownload, disabled }: DownloadHistoryProps) {
+  const [query, setQuery] = useState('')
+  const { entries } = history
+  if (entries.length === 0) return null
+
+  const visible = searchHistory(entries, query)
+  const exportAs = (format: 'json' | 'csv') => {
+    const blob = format === 'json'
+      ? new Blob([JSON.stringify(entries, null, 2)], { type: 'application/json' })
+      : new Blob([historyToCsv(entries)], { type: 'text/csv' })
+    saveBlob(blob, `download-history.${format}`)
+  }
+
+  return (
+    <Card className="mt-6 shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Recent Downloads
+        </CardTitle>
+        <CardDescription>Stored in this browser only</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            aria-label="Search history"
+            placeholder="Search by title, URL or format"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+
+        <ul className="max-h-96 overflow-y-auto divide-y rounded-md border">
+          {visible.map((entry) => (
+            <li key={entry.id} className="flex items-center gap-3 p-2 text-sm">
+              {entry.thumbnail && (
+                <Image
+                  src={entry.thumbnail}
+                  alt=""
+                  width={64}
+                  height={36}
+                  className="h-9 w-16 shrink-0 rounded object-cover"
+                />
+              )}
+              <div className="min-w-0 flex-1">
+                <p className="truncate">{entry.title}</p>
+                <p className="truncate text-xs text-muted-foreground">
+                  {[
+                    entry.deliveredQuality,
+                    entry.format.toUpperCase(),
+                    entry.size ? formatBytes(entry.size) : null,
+                    new Date(entry.downloadedAt).toLocaleString(),
+                  ].filter(Boolean).join(' · ')}
+                </p>
+              </div>
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => onRedownload(entry)}
+                disabled={disabled}
+                aria-label={`Download ${entry.title} again`}
+              >
+                <RotateCw className="h-4 w-4" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => history.remove(entry.id)}
+                aria-label={`Remove ${entry.title} from history`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+          {visible.length === 0 && (
+            <li className="p-3 text-center text-sm text-muted-foreground">No downloads match your search</li>
+          )}
+        </ul>
+
+        <div className="flex flex-wrap gap-2">
+          <Button size="sm" variant="outline" onClick={() => exportAs('json')}>
+            <FileJson className="mr-2 h-4 w-4" />
+            Export JSON
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => exportAs('csv')}>
+            <FileSpreadsheet className="mr-2 h-4 w-4" />
+            Export CSV
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="ml-auto"
+            onClick={() => {
+              if (window.confirm('Clear the download history?')) history.clear()
+            }}
+          >
+            <Trash2 className="mr-2 h-4 w-4" />
+            Clear
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,31 @@
+import { Progress } from '@/components/ui/progress'
+import { formatBytes, formatDuration } from '@/lib/utils'
+
+export interface DownloadProgressState {
+  label: string
+  bytesDownloaded: number
+  totalBytes: number | null
+  bytesPerSecond: number | null
+  etaSeconds: number | null
+}
+
+// Progress bar with bytes, speed and ETA; indeterminate when the total is unknown
+export function DownloadProgress({ label, bytesDownloaded, totalBytes, bytesPerSecond, etaSeconds }: DownloadProgressState) {
+  const percent = totalBytes ? Math.min(100, (bytesDownloaded / totalBytes) * 100) : null
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between text-sm">
+        <span className="font-medium">{label}</span>
+        {percent !== null && <span>{Math.floor(percent)}%</span>}
+      </div>
+      <Progress value={percent} />
+      <p className="text-xs text-muted-foreground">
+        {formatBytes(bytesDownloaded)}
+        {totalBytes ? ` of ${formatBytes(totalBytes)}` : ''}
+        {bytesPerSecond ? ` · ${formatBytes(bytesPerSecond)}/s` : ''}
+        {etaSeconds !== null ? ` · ${formatDuration(etaSeconds)} left` : ''}
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,90 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { AlertCircle, Clock, ExternalLink, Layers, RotateCw, Server } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import type { AppError } from '@/lib/errors'
+import { formatDuration } from '@/lib/utils'
+
+interface ErrorAlertProps {
+  error: AppError
+  // Handlers for the suggested actions; an action without a handler is not shown
+  onRetry?: () => void
+  onChangeQuality?: () => void
+  onBackgroundJob?: () => void
+  youtubeUrl?: string | null
+}
+
+// Error message with buttons for the actions its code suggests
+export function ErrorAlert({ error, onRetry, onChangeQuality, onBackgroundJob, youtubeUrl }: ErrorAlertProps) {
+  const [waitSeconds, setWaitSeconds] = useState(error.resetInSeconds ?? 0)
+
+  // Count down to when a rate-limited request may be retried, or a premiere starts
+  useEffect(() => {
+    setWaitSeconds(error.resetInSeconds ?? 0)
+    if (!error.resetInSeconds) return
+
+    const timer = setInterval(() => {
+      const remaining = error.resetInSeconds ?? 0
+      setWaitSeconds(remaining)
+      if (remaining <= 0) clearInterval(timer)
+    }, 1000)
+    return () => clearInterval(timer)
+  }, [error])
+
+  const buttons = error.actions.flatMap((action) => {
+    switch (action) {
+      case 'retry':
+        return onRetry ? [
+          <Button key={action} size="sm" variant="outline" onClick={onRetry}>
+            <RotateCw className="mr-2 h-4 w-4" />
+            Try again
+          </Button>,
+        ] : []
+      case 'retry-after':
+        return onRetry ? [
+          <Button key={action} size="sm" variant="outline" onClick={onRetry} disabled={waitSeconds > 0}>
+            <Clock className="mr-2 h-4 w-4" />
+            {waitSeconds > 0 ? `Retry in ${waitSeconds < 60 ? `${waitSeconds}s` : formatDuration(waitSeconds)}` : 'Try again'}
+          </Button>,
+        ] : []
+      case 'change-quality':
+        return onChangeQuality ? [
+          <Button key={action} size="sm" variant="outline" onClick={onChangeQuality}>
+            <Layers className="mr-2 h-4 w-4" />
+            Try another quality
+          </Button>,
+        ] : []
+      case 'background-job':
+        return onBackgroundJob ? [
+          <Button key={action} size="sm" variant="outline" onClick={onBackgroundJob}>
+            <Server className="mr-2 h-4 w-4" />
+            Download in background
+          </Button>,
+        ] : []
+      case 'open-youtube':
+        return youtubeUrl ? [
+          <Button key={action} size="sm" variant="outline" asChild>
+            <a href={youtubeUrl} target="_blank" rel="noopener noreferrer">
+              <ExternalLink className="mr-2 h-4 w-4" />
+              Open on YouTube
+            </a>
+          </Button>,
+        ] : []
+      default:
+        // change-url: the URL field is right there
+        return []
+    }
+  })
+
+  return (
+    <div className="space-y-3 p-3 rounded-md bg-destructive/10 text-destructive text-sm">
+      <div className="flex items-center gap-2">
+        <AlertCircle className="h-4 w-4 shrink-0" />
+        <span>{error.message}</span>
+      </div>
+      {error.details && <p className="text-xs opacity-80">{error.details}</p>}
+      {buttons.length > 0 && <div className="flex flex-wrap gap-2">{buttons}</div>}
+    </div>
+  )
+}
@@ -0,0 +1,260 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { AlertCircle, CheckCircle2, Download, FileArchive, Loader2, RotateCw } from 'lucide-react'
+import { formatDuration } from '@/lib/utils'
+import { saveResponse, runBatchJob } from '@/lib/download-client'
+import { api } from '@/lib/api-client'
+import type { PlaylistSummary } from '@/lib/playlist'
+import type { DownloadOptions } from '@/lib/download'
+import { MAX_BATCH_SIZE } from '@/lib/api-schemas'
+import { DownloadProgress, DownloadProgressState } from '@/components/download-progress'
+
+type ItemStatus =
+  | { state: 'pending' }
+  | { state: 'downloading' }
+  | { state: 'done' }
+  | { state: 'error'; message: string }
+
+interface PlaylistQueueProps {
+  url: string
+  options: DownloadOptions
+}
+
+export function PlaylistQueue({ url, options }: PlaylistQueueProps) {
+  const [playlist, setPlaylist] = useState<PlaylistSummary | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [statuses, setStatuses] = useState<{ [videoId: string]: ItemStatus }>({})
+  const [busy, setBusy] = useState(false)
+  const [zipProgress, setZipProgress] = useState<DownloadProgressState | null>(null)
+
+  useEffect(() => {
+    setPlaylist(null)
+    setError(null)
+
+    const controller = new AbortController()
+    const timer = setTimeout(async () => {
+      setLoading(true)
+      try {
+        const summary = await api.playlist(url, { signal: controller.signal })
+        setPlaylist(summary)
+        setSelected(new Set(summary.entries.map((entry) => entry.videoId)))
+        setStatuses({})
+      } catch (err: any) {
+        if (err.name !== 'AbortError') {
+          setError(err.message || 'Failed to load playlist')
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false)
+        }
+      }
+    }, 500)
+
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+      setLoading(false)
+    }
+  }, [url])
+
+  const setStatus = (videoId: string, status: ItemStatus) => {
+    setStatuses((current) => ({ ...current, [videoId]: status }))
+  }
+
+  const toggle = (videoId: string) => {
+    setSelected((current) => {
+      const next = new Set(current)
+      if (next.has(videoId)) {
+        next.delete(videoId)
+      } else {
+        next.add(videoId)
+      }
+      return next
+    })
+  }
+
+  const downloadOne = async (videoId: string) => {
+    setStatus(videoId, { state: 'downloading' })
+    try {
+      await saveResponse(
+        await api.download({ ...options, url: `https://www.youtube.com/watch?v=${videoId}` }),
+        options.mode === 'audio'
+          ? `${videoId}.${options.audioFormat === 'opus' ? 'webm' : options.audioFormat || 'm4a'}`
+          : `${videoId}.${options.container || 'mp4'}`
+      )
+      setStatus(videoId, { state: 'done' })
+    } catch (err: any) {
+      setStatus(videoId, { state: 'error', message: err.message || 'Download failed' })
+    }
+  }
+
+  // Download the selected videos one at a time, in playlist order
+  const downloadSequentially = async () => {
+    if (!playlist) return
+    const queue = playlist.entries.filter((entry) => selected.has(entry.videoId))
+    queue.forEach((entry) => setStatus(entry.videoId, { state: 'pending' }))
+
+    setBusy(true)
+    for (const entry of queue) {
+      await downloadOne(entry.videoId)
+    }
+    setBusy(false)
+  }
+
+  const downloadZip = async () => {
+    if (!playlist) return
+    const videoIds = playlist.entries
+      .filter((entry) => selected.has(entry.videoId))
+      .map((entry) => entry.videoId)
+
+    setBusy(true)
+    setError(null)
+    videoIds.forEach((videoId) => setStatus(videoId, { state: 'downloading' }))
+    try {
+      // The ZIP is built on the server as a background job, then saved
+      await runBatchJob({ ...options, videoIds, title: playlist.title }, (job) =>
+        setZipProgress({
+          label: job.state === 'queued' ? 'Waiting in queue...' : 'Building ZIP on server...',
+          bytesDownloaded: job.bytesDownloaded,
+          totalBytes: job.totalBytes,
+          bytesPerSecond: job.bytesPerSecond,
+          etaSeconds: job.etaSeconds,
+        })
+      )
+      videoIds.forEach((videoId) => setStatus(videoId, { state: 'done' }))
+    } catch (err: any) {
+      setError(err.message || 'Failed to download playlist')
+      videoIds.forEach((videoId) => setStatus(videoId, { state: 'pending' }))
+    } finally {
+      setBusy(false)
+      setZipProgress(null)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="mt-6 flex items-center justify-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading playlist...
+      </div>
+    )
+  }
+
+  if (error && !playlist) {
+    return (
+      <div className="mt-6 flex items-center gap-2 p-3 rounded-md bg-destructive/10 text-destructive text-sm">
+        <AlertCircle className="h-4 w-4" />
+        <span>{error}</span>
+      </div>
+    )
+  }
+
+  if (!playlist) return null
+
+  const allSelected = selected.size === playlist.entries.length
+
+  return (
+    <Card className="mt-6 shadow-lg">
+      <CardHeader>
+        <CardTitle className="text-xl">{playlist.title}</CardTitle>
+        <CardDescription>
+          {playlist.channel && `${playlist.channel} · `}
+          {playlist.entries.length < playlist.totalItems
+            ? `Showing ${playlist.entries.length} of ${playlist.totalItems} videos`
+            : `${playlist.entries.length} videos`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <label className="flex items-center gap-2 text-sm font-medium">
+          <input
+            type="checkbox"
+            checked={allSelected}
+            onChange={() =>
+              setSelected(allSelected ? new Set() : new Set(playlist.entries.map((entry) => entry.videoId)))
+            }
+            disabled={busy}
+          />
+          Select all ({selected.size} selected)
+        </label>
+
+        <ul className="max-h-96 overflow-y-auto divide-y rounded-md border">
+          {playlist.entries.map((entry) => {
+            const status = statuses[entry.videoId]
+            return (
+              <li key={entry.videoId} className="flex items-center gap-3 p-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={selected.has(entry.videoId)}
+                  onChange={() => toggle(entry.videoId)}
+                  disabled={busy}
+                  aria-label={`Select ${entry.title}`}
+                />
+                <div className="min-w-0 flex-1">
+                  <p className="truncate">{entry.title}</p>
+                  {status?.state === 'error' && (
+                    <p className="truncate text-xs text-destructive">{status.message}</p>
+                  )}
+                </div>
+                {entry.durationSeconds !== null && (
+                  <span className="text-xs text-muted-foreground">
+                    {formatDuration(entry.durationSeconds)}
+                  </span>
+                )}
+                <span className="flex w-6 justify-center">
+                  {status?.state === 'downloading' && <Loader2 className="h-4 w-4 animate-spin" />}
+                  {status?.state === 'done' && <CheckCircle2 className="h-4 w-4 text-green-600" />}
+                  {status?.state === 'error' && (
+                    <button
+                      type="button"
+                      onClick={() => downloadOne(entry.videoId)}
+                      disabled={busy}
+                      title="Retry"
+                    >
+                      <RotateCw className="h-4 w-4 text-destructive" />
+                    </button>
+                  )}
+                </span>
+              </li>
+            )
+          })}
+        </ul>
+
+        {zipProgress && <DownloadProgress {...zipProgress} />}
+
+        {error && (
+          <div className="flex items-center gap-2 p-3 rounded-md bg-destructive/10 text-destructive text-sm">
+            <AlertCircle className="h-4 w-4" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-2">
+          <Button onClick={downloadSequentially} disabled={busy || selected.size === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            Download one by one
+          </Button>
+          <Button
+            variant="outline"
+            onClick={downloadZip}
+            disabled={busy || selected.size === 0 || selected.size > MAX_BATCH_SIZE}
+            title={selected.size > MAX_BATCH_SIZE ? `ZIP downloads are limited to ${MAX_BATCH_SIZE} videos` : undefined}
+          >
+            <FileArchive className="mr-2 h-4 w-4" />
+            Download as ZIP
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,72 @@
+'use client'
+
+import { useState } from 'react'
+import { ImageDown, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { saveResponse } from '@/lib/download-client'
+import { api } from '@/lib/api-client'
+import type { ThumbnailQuery } from '@/lib/api-schemas'
+
+interface ThumbnailDownloadProps {
+  url: string
+}
+
+// Download the largest thumbnail or the channel picture as JPEG, WebP or PNG
+export function ThumbnailDownload({ url }: ThumbnailDownloadProps) {
+  const [source, setSource] = useState('video')
+  const [format, setFormat] = useState('jpeg')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const download = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      // The selects only offer values the API accepts
+      const query = { url, source, format } as ThumbnailQuery
+      await saveResponse(await api.thumbnail(query), `thumbnail.${format === 'jpeg' ? 'jpg' : format}`)
+    } catch (err: any) {
+      setError(err.message || 'Failed to download the image')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <span className="text-sm font-medium">Thumbnail</span>
+      <div className="flex gap-2">
+        <Select value={source} onValueChange={setSource} disabled={loading}>
+          <SelectTrigger className="flex-1" aria-label="Image">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="video">Video thumbnail</SelectItem>
+            <SelectItem value="channel">Channel picture</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={format} onValueChange={setFormat} disabled={loading}>
+          <SelectTrigger className="w-28" aria-label="Image format">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="jpeg">JPEG</SelectItem>
+            <SelectItem value="webp">WebP</SelectItem>
+            <SelectItem value="png">PNG</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button variant="outline" onClick={download} disabled={loading} aria-label="Download image">
+          {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <ImageDown className="h-4 w-4" />}
+        </Button>
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  )
+}
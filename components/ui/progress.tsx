@@ -0,0 +1,36 @@
+import * as React from "react"
+
+import { cn } from "@/lib/utils"
+
+export interface ProgressProps
+  extends React.HTMLAttributes<HTMLDivElement> {
+  value?: number | null
+}
+
+const Progress = React.forwardRef<HTMLDivElement, ProgressProps>(
+  ({ className, value, ...props }, ref) => (
+    <div
+      ref={ref}
+      role="progressbar"
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={value ?? undefined}
+      className={cn(
+        "relative h-2 w-full overflow-hidden rounded-full bg-secondary",
+        className
+      )}
+      {...props}
+    >
+      <div
+        className={cn(
+          "h-full bg-primary transition-all",
+          value == null && "w-1/3 animate-pulse"
+        )}
+        style={value == null ? undefined : { width: `${Math.min(100, Math.max(0, value))}%` }}
+      />
+    </div>
+  )
+)
+Progress.displayName = "Progress"
+
+export { Progress }
@@ -0,0 +1,164 @@
+// Typed client for the HTTP API, used by the page and by scripts. Request
+// bodies are checked against lib/api-schemas.ts before they are sent and JSON
+// responses after they arrive; failures come back as AppErrors either way.
+// Works in the browser and in Node 18+, which has fetch built in.
+
+import { z } from 'zod/v4'
+import { AppError } from '@/lib/errors'
+import {
+  apiKeyListSchema,
+  apiKeySchema,
+  batchRequestSchema,
+  captionTracksSchema,
+  captionsQuerySchema,
+  createApiKeyRequestSchema,
+  createdApiKeySchema,
+  downloadRequestSchema,
+  historySchema,
+  jobStatusSchema,
+  parseInput,
+  playlistSchema,
+  thumbnailQuerySchema,
+  usageSchema,
+  videoInfoSchema,
+  BatchRequest,
+  CaptionsQuery,
+  CreateApiKeyRequest,
+  DownloadRequest,
+  ThumbnailQuery,
+} from '@/lib/api-schemas'
+
+export interface ApiClientOptions {
+  baseUrl?: string // e.g. "https://downloads.example.com"; leave out in the browser for the same origin
+  token?: string // an API key, or ADMIN_TOKEN for the admin endpoints; sent as a bearer token
+  fetch?: typeof fetch
+}
+
+export interface ApiRequestOptions {
+  signal?: AbortSignal
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>
+
+export function createApiClient({ baseUrl = '', token, fetch: fetchImpl }: ApiClientOptions = {}) {
+  const url = (path: string, query: { [name: string]: string | undefined } = {}) => {
+    const params = new URLSearchParams()
+    Object.entries(query).forEach(([name, value]) => {
+      if (value !== undefined) params.set(name, value)
+    })
+    const search = params.toString()
+    return `${baseUrl}${path}${search ? `?${search}` : ''}`
+  }
+
+  // Non-2xx responses are thrown as the AppError the server sent
+  const send = async (target: string, init: RequestInit = {}): Promise<Response> => {
+    const headers = new Headers(init.headers)
+    if (token) headers.set('Authorization', `Bearer ${token}`)
+    const response = await (fetchImpl || fetch)(target, { ...init, headers })
+    if (!response.ok) {
+      throw await AppError.fromResponse(response)
+    }
+    return response
+  }
+
+  const post = <T extends z.ZodType>(path: string, schema: T, body: z.input<T>, { signal }: ApiRequestOptions = {}) =>
+    send(url(path), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(parseInput(schema, body)),
+      signal,
+    })
+
+  const read = async <T extends z.ZodType>(response: Response, schema: T): Promise<z.output<T>> => {
+    const result = schema.safeParse(await response.json())
+    if (!result.success) {
+      throw new AppError('INTERNAL', {
+        message: 'The server sent a response this client does not understand',
+        details: result.error.message,
+      })
+    }
+    return result.data
+  }
+
+  return {
+    url,
+
+    async info(videoUrl: string, options: ApiRequestOptions = {}) {
+      return read(await send(url('/api/info', { url: videoUrl }), options), videoInfoSchema)
+    },
+
+    async playlist(playlistUrl: string, options: ApiRequestOptions = {}) {
+      return read(await send(url('/api/playlist', { url: playlistUrl }), options), playlistSchema)
+    },
+
+    async captionTracks(videoUrl: string, options: ApiRequestOptions = {}) {
+      return read(await send(url('/api/captions', { url: videoUrl }), options), captionTracksSchema)
+    },
+
+    // The converted track as a file response
+    captions(query: CaptionsQuery & { track: string }, options: ApiRequestOptions = {}) {
+      return send(url('/api/captions', parseInput(captionsQuerySchema, query)), options)
+    },
+
+    thumbnail(query: ThumbnailQuery, options: ApiRequestOptions = {}) {
+      return send(url('/api/thumbnail', parseInput(thumbnailQuerySchema, query)), options)
+    },
+
+    // The file response, streaming while it downloads
+    download(body: DownloadRequest, options: ApiRequestOptions = {}) {
+      return post('/api/download', downloadRequestSchema, body, options)
+    },
+
+    // Starts a job that downloads the videos into a ZIP; poll it with job()
+    async batch(body: BatchRequest, options: ApiRequestOptions = {}) {
+      return read(await post('/api/batch', batchRequestSchema, body, options), jobStatusSchema)
+    },
+
+    // Where a single format can be fetched with Range requests
+    formatUrl(videoId: string, itag: number, filename?: string) {
+      return url(`/api/download/${encodeURIComponent(videoId)}/${itag}`, { filename })
+    },
+
+    async createJob(body: DownloadRequest, options: ApiRequestOptions = {}) {
+      return read(await post('/api/jobs', downloadRequestSchema, body, options), jobStatusSchema)
+    },
+
+    async job(id: string, options: ApiRequestOptions = {}) {
+      return read(await send(url(`/api/jobs/${encodeURIComponent(id)}`), options), jobStatusSchema)
+    },
+
+    // The finished file of a completed job; with an offset, the rest of it
+    // from that byte (a 206 response)
+    jobFile(id: string, { offset, ...options }: ApiRequestOptions & { offset?: number } = {}) {
+      const headers: HeadersInit = offset ? { Range: `bytes=${offset}-` } : {}
+      return send(url(`/api/jobs/${encodeURIComponent(id)}/file`), { headers, ...options })
+    },
+
+    async usage(options: ApiRequestOptions = {}) {
+      return read(await send(url('/api/usage'), options), usageSchema)
+    },
+
+    async history(options: ApiRequestOptions = {}) {
+      return read(await send(url('/api/history'), options), historySchema)
+    },
+
+    async clearHistory(options: ApiRequestOptions = {}) {
+      await send(url('/api/history'), { method: 'DELETE', ...options })
+    },
+
+    async apiKeys(options: ApiRequestOptions = {}) {
+      return read(await send(url('/api/admin/keys'), options), apiKeyListSchema)
+    },
+
+    async createApiKey(body: CreateApiKeyRequest, options: ApiRequestOptions = {}) {
+      return read(await post('/api/admin/keys', createApiKeyRequestSchema, body, options), createdApiKeySchema)
+    },
+
+    async revokeApiKey(id: string, options: ApiRequestOptions = {}) {
+      return read(await send(url(`/api/admin/keys/${encodeURIComponent(id)}`), { method: 'DELETE', ...options }), apiKeySchema)
+    },
+  }
+}
+
+// For the page, which calls its own origin without a key
+export const api = createApiClient()
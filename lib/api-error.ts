@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server'
+import { classifyError } from '@/lib/errors'
+
+// Send anything thrown as a coded JSON error (see lib/errors.ts)
+export function errorResponse(error: unknown, headers: Record<string, string> = {}): NextResponse {
+  const appError = classifyError(error)
+  if (appError.resetInSeconds !== undefined) {
+    headers = { 'Retry-After': String(appError.resetInSeconds), ...headers }
+  }
+  return NextResponse.json(appError.toJSON(), { status: appError.status, headers })
+}
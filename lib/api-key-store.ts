@@ -0,0 +1,130 @@
+// Storage for API keys and their daily usage. Anything implementing
+// ApiKeyStore (a database, Redis) can replace the JSON file backend.
+
+import fs from 'fs'
+import path from 'path'
+import { addHistoryEntry, DownloadHistoryEntry } from '@/lib/history'
+
+export interface ApiKeyRecord {
+  id: string
+  name: string
+  hash: string // SHA-256 of the key; the key itself is only shown once, on creation
+  prefix: string // first characters of the key, to help tell keys apart
+  createdAt: string
+  revokedAt: string | null
+  dailyRequestQuota: number | null // null means unlimited
+  dailyByteQuota: number | null
+  recordHistory?: boolean // keep a server-side download history; off unless asked for
+}
+
+export interface ApiKeyUsage {
+  date: string // UTC day, YYYY-MM-DD
+  requests: number
+  bytes: number
+}
+
+export interface ApiKeyStore {
+  list(): Promise<ApiKeyRecord[]>
+  findByHash(hash: string): Promise<ApiKeyRecord | null>
+  save(record: ApiKeyRecord): Promise<void> // creates or replaces by id
+  getUsage(id: string, date: string): Promise<ApiKeyUsage>
+  addUsage(id: string, date: string, requests: number, bytes: number): Promise<ApiKeyUsage>
+  listHistory(id: string): Promise<DownloadHistoryEntry[]> // newest first
+  addHistory(id: string, entry: DownloadHistoryEntry): Promise<void>
+  clearHistory(id: string): Promise<void>
+}
+
+interface ApiKeyFile {
+  keys: ApiKeyRecord[]
+  usage: { [id: string]: ApiKeyUsage } // only the current day is kept
+  history?: { [id: string]: DownloadHistoryEntry[] } // added later, so older files lack it
+}
+
+const MAX_SERVER_HISTORY_ENTRIES = 1000
+
+// Keeps the whole file in memory and rewrites it on every change. Good for a
+// handful of keys on one long-running server; writes from several processes
+// would overwrite each other.
+export function createJsonFileStore(filePath: string): ApiKeyStore {
+  let loaded: Promise<ApiKeyFile> | null = null
+  let writing: Promise<void> = Promise.resolve()
+
+  const load = () => {
+    loaded ??= fs.promises.readFile(filePath, 'utf8')
+      .then((text) => JSON.parse(text) as ApiKeyFile)
+      .catch((error) => {
+        if (error.code === 'ENOENT') return { keys: [], usage: {} }
+        loaded = null // try again on the next call
+        throw error
+      })
+    return loaded
+  }
+
+  // Writes are queued so they land in order, and go through a temporary file
+  // so a crash mid-write never leaves a truncated store behind
+  const persist = (file: ApiKeyFile) => {
+    writing = writing
+      .catch(() => {})
+      .then(async () => {
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true })
+        const temporary = `${filePath}.${process.pid}.tmp`
+        await fs.promises.writeFile(temporary, JSON.stringify(file, null, 2))
+        await fs.promises.rename(temporary, filePath)
+      })
+    return writing
+  }
+
+  const emptyUsage = (date: string): ApiKeyUsage => ({ date, requests: 0, bytes: 0 })
+
+  return {
+    async list() {
+      return (await load()).keys
+    },
+
+    async findByHash(hash) {
+      return (await load()).keys.find((key) => key.hash === hash) ?? null
+    },
+
+    async save(record) {
+      const file = await load()
+      const index = file.keys.findIndex((key) => key.id === record.id)
+      if (index === -1) file.keys.push(record)
+      else file.keys[index] = record
+      await persist(file)
+    },
+
+    async getUsage(id, date) {
+      const usage = (await load()).usage[id]
+      return usage && usage.date === date ? usage : emptyUsage(date)
+    },
+
+    async addUsage(id, date, requests, bytes) {
+      const file = await load()
+      const current = file.usage[id]
+      const usage = current && current.date === date ? current : emptyUsage(date)
+      usage.requests += requests
+      usage.bytes += bytes
+      file.usage[id] = usage
+      await persist(file)
+      return usage
+    },
+
+    async listHistory(id) {
+      return (await load()).history?.[id] ?? []
+    },
+
+    async addHistory(id, entry) {
+      const file = await load()
+      file.history ??= {}
+      file.history[id] = addHistoryEntry(file.history[id] ?? [], entry, MAX_SERVER_HISTORY_ENTRIES)
+      await persist(file)
+    },
+
+    async clearHistory(id) {
+      const file = await load()
+      if (!file.history?.[id]) return
+      delete file.history[id]
+      await persist(file)
+    },
+  }
+}
@@ -0,0 +1,225 @@
+// API keys for scripts and integrations. A key is sent as
+// `Authorization: Bearer <key>`, gets its own rate-limit bucket instead of
+// sharing the per-IP one, and has daily request and byte quotas.
+
+import crypto from 'crypto'
+import path from 'path'
+import { Readable } from 'stream'
+import { NextRequest } from 'next/server'
+import { ApiKeyRecord, ApiKeyStore, ApiKeyUsage, createJsonFileStore } from '@/lib/api-key-store'
+import { createHistoryEntry, DownloadHistoryEntry } from '@/lib/history'
+import { AppError } from '@/lib/errors'
+
+const DEFAULT_DAILY_REQUESTS = process.env.API_KEY_DAILY_REQUESTS
+  ? parseInt(process.env.API_KEY_DAILY_REQUESTS, 10)
+  : 1000
+const DEFAULT_DAILY_BYTES = process.env.API_KEY_DAILY_BYTES
+  ? parseInt(process.env.API_KEY_DAILY_BYTES, 10)
+  : 10 * 1024 * 1024 * 1024 // 10 GB
+
+export const apiKeyStore: ApiKeyStore = createJsonFileStore(
+  process.env.API_KEY_STORE_PATH || path.join(process.cwd(), 'data', 'api-keys.json')
+)
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex')
+}
+
+// Quotas reset at midnight UTC
+export function usageDate(now = new Date()): string {
+  return now.toISOString().slice(0, 10)
+}
+
+export function quotaResetTime(now = new Date()): number {
+  return Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)
+}
+
+export interface CreateApiKeyOptions {
+  name: string
+  dailyRequestQuota?: number | null
+  dailyByteQuota?: number | null
+  recordHistory?: boolean
+}
+
+// Returns the plain key alongside its record; only the hash is stored
+export async function createApiKey(options: CreateApiKeyOptions): Promise<{ key: string; record: ApiKeyRecord }> {
+  const key = `ytd_${crypto.randomBytes(24).toString('base64url')}`
+  const record: ApiKeyRecord = {
+    id: crypto.randomUUID(),
+    name: options.name,
+    hash: hashApiKey(key),
+    prefix: key.slice(0, 8),
+    createdAt: new Date().toISOString(),
+    revokedAt: null,
+    dailyRequestQuota: options.dailyRequestQuota === undefined ? DEFAULT_DAILY_REQUESTS : options.dailyRequestQuota,
+    dailyByteQuota: options.dailyByteQuota === undefined ? DEFAULT_DAILY_BYTES : options.dailyByteQuota,
+    recordHistory: options.recordHistory === true,
+  }
+
+  await apiKeyStore.save(record)
+  return { key, record }
+}
+
+export async function revokeApiKey(id: string): Promise<ApiKeyRecord | null> {
+  const record = (await apiKeyStore.list()).find((key) => key.id === id)
+  if (!record) return null
+
+  if (!record.revokedAt) {
+    record.revokedAt = new Date().toISOString()
+    await apiKeyStore.save(record)
+  }
+  return record
+}
+
+// Looks up an active key; revoked and unknown keys both return null
+export async function authenticateApiKey(key: string): Promise<ApiKeyRecord | null> {
+  const record = await apiKeyStore.findByHash(hashApiKey(key))
+  return record && !record.revokedAt ? record : null
+}
+
+export interface QuotaCheck {
+  allowed: boolean
+  reason: 'requests' | 'bytes' | null
+  usage: ApiKeyUsage
+}
+
+// Today's bytes per key, counted as they are sent so downloads running side
+// by side share one total. The store only hears about a download once it
+// ends, so it seeds the count and is not asked again until the next day.
+interface ByteMeter {
+  date: string
+  bytes: number
+  loaded: Promise<void>
+}
+
+// Kept on globalThis so every route handler (and dev-mode reloads) share one set
+const registry = globalThis as unknown as { apiKeyMeters?: Map<string, ByteMeter> }
+registry.apiKeyMeters ??= new Map()
+const meters = registry.apiKeyMeters
+
+function byteMeter(record: ApiKeyRecord): ByteMeter {
+  const date = usageDate()
+  const current = meters.get(record.id)
+  if (current && current.date === date) return current
+
+  const meter: ByteMeter = { date, bytes: 0, loaded: Promise.resolve() }
+  meter.loaded = apiKeyStore.getUsage(record.id, date)
+    .then((usage) => {
+      meter.bytes += usage.bytes
+    })
+    .catch((error) => {
+      console.error('Failed to load API key usage:', error)
+    })
+  meters.set(record.id, meter)
+  return meter
+}
+
+// Quota checks run one at a time, so parallel requests cannot all pass a
+// check that only has room for one of them
+let quotaChecks: Promise<unknown> = Promise.resolve()
+
+// Downloads are also refused once the day's bytes are used up, counting
+// downloads still in progress. The request is counted only when it is allowed.
+export function consumeQuota(record: ApiKeyRecord, checkBytes: boolean): Promise<QuotaCheck> {
+  const check = quotaChecks.then(() => checkQuota(record, checkBytes))
+  quotaChecks = check.catch(() => {})
+  return check
+}
+
+async function checkQuota(record: ApiKeyRecord, checkBytes: boolean): Promise<QuotaCheck> {
+  const date = usageDate()
+  const usage = await apiKeyStore.getUsage(record.id, date)
+
+  if (record.dailyRequestQuota !== null && usage.requests >= record.dailyRequestQuota) {
+    return { allowed: false, reason: 'requests', usage }
+  }
+  if (checkBytes && record.dailyByteQuota !== null) {
+    const meter = byteMeter(record)
+    await meter.loaded
+    if (meter.bytes >= record.dailyByteQuota) {
+      return { allowed: false, reason: 'bytes', usage }
+    }
+  }
+
+  return { allowed: true, reason: null, usage: await apiKeyStore.addUsage(record.id, date, 1, 0) }
+}
+
+// Counts the bytes sent to a key's client, and ends the download with
+// QUOTA_EXCEEDED once they pass the day's quota. Must be attached in the same
+// tick the stream is handed to toResponseStream so no chunk is missed.
+export function meterStream(record: ApiKeyRecord | undefined, stream: Readable): Readable {
+  if (!record) return stream
+
+  const meter = byteMeter(record)
+  let bytes = 0
+  stream.on('data', (chunk: Buffer) => {
+    bytes += chunk.length
+    meter.bytes += chunk.length
+    if (record.dailyByteQuota !== null && meter.bytes > record.dailyByteQuota) {
+      stream.destroy(new AppError('QUOTA_EXCEEDED', {
+        message: 'The daily download volume for this API key ran out during this download. It resets at midnight UTC.',
+        resetTime: quotaResetTime(),
+      }))
+    }
+  })
+  stream.once('close', () => {
+    if (bytes === 0) return
+    apiKeyStore.addUsage(record.id, usageDate(), 0, bytes).catch((error) => {
+      console.error('Failed to record API key usage:', error)
+    })
+  })
+  return stream
+}
+
+// Adds a download to the key's history once the whole file has been sent,
+// for keys created with recordHistory
+export function recordHistoryOnEnd(
+  record: ApiKeyRecord | undefined,
+  stream: Readable,
+  fields: Omit<DownloadHistoryEntry, 'id' | 'downloadedAt' | 'size'>
+): Readable {
+  if (!record?.recordHistory) return stream
+
+  let bytes = 0
+  stream.on('data', (chunk: Buffer) => {
+    bytes += chunk.length
+  })
+  stream.once('end', () => {
+    apiKeyStore.addHistory(record.id, createHistoryEntry({ ...fields, size: bytes })).catch((error) => {
+      console.error('Failed to record download history:', error)
+    })
+  })
+  return stream
+}
+
+export function getBearerToken(request: NextRequest): string | null {
+  const match = request.headers.get('authorization')?.match(/^Bearer\s+(\S+)$/i)
+  return match ? match[1] : null
+}
+
+// Admin routes are enabled by setting ADMIN_TOKEN and sending it as a bearer token
+export function isAdminRequest(request: NextRequest): boolean {
+  const adminToken = process.env.ADMIN_TOKEN
+  const token = getBearerToken(request)
+  if (!adminToken || !token) return false
+
+  // Compare hashes so the comparison is constant-time regardless of length
+  return crypto.timingSafeEqual(
+    Buffer.from(hashApiKey(token), 'hex'),
+    Buffer.from(hashApiKey(adminToken), 'hex')
+  )
+}
+
+// Public view of a key record, without the hash
+export function describeApiKey(record: ApiKeyRecord) {
+  return {
+    id: record.id,
+    name: record.name,
+    prefix: record.prefix,
+    createdAt: record.createdAt,
+    revokedAt: record.revokedAt,
+    dailyRequestQuota: record.dailyRequestQuota,
+    dailyByteQuota: record.dailyByteQuota,
+    recordHistory: record.recordHistory === true,
+  }
+}
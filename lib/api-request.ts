@@ -0,0 +1,25 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod/v4'
+import { AppError } from '@/lib/errors'
+import { parseInput } from '@/lib/api-schemas'
+
+// The JSON body, validated against a schema from lib/api-schemas.ts. Throws
+// INVALID_REQUEST for a body that is not JSON or does not match.
+export async function parseJsonBody<T extends z.ZodType>(request: NextRequest, schema: T): Promise<z.output<T>> {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    throw new AppError('INVALID_REQUEST', { message: 'The request body must be valid JSON' })
+  }
+  return parseInput(schema, body)
+}
+
+// The query string, validated the same way. Empty parameters count as missing.
+export function parseQuery<T extends z.ZodType>(request: NextRequest, schema: T): z.output<T> {
+  const query: { [name: string]: string } = {}
+  request.nextUrl.searchParams.forEach((value, name) => {
+    if (value !== '') query[name] = value
+  })
+  return parseInput(schema, query)
+}
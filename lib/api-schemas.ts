@@ -0,0 +1,259 @@
+// Request and response schemas for every API endpoint. The routes validate
+// with them, lib/api-client.ts types its methods from them and
+// /api/openapi.json is generated from them, so the three cannot drift apart.
+// Shared by the server and the browser, so no Node imports.
+
+import { z } from 'zod/v4'
+import { AppError, ApiErrorBody, ERRORS, ErrorCode, FieldError } from '@/lib/errors'
+import { validateFilenameTemplate } from '@/lib/filename'
+import { parseTimestamp } from '@/lib/utils'
+import type { VideoInfoSummary } from '@/lib/youtube'
+import type { PlaylistSummary } from '@/lib/playlist'
+import type { JobStatus } from '@/lib/jobs'
+import type { DownloadHistoryEntry } from '@/lib/history'
+
+export const MAX_BATCH_SIZE = 25
+// Longest recording of a live stream, in minutes
+export const MAX_LIVE_MINUTES = 12 * 60
+
+// Turn a failed parse into a 400 listing every field that was wrong
+export function validationError(error: z.ZodError): AppError {
+  const fields: FieldError[] = error.issues.map((issue) => ({
+    path: issue.path.join('.'),
+    message: issue.message,
+  }))
+  return new AppError('INVALID_REQUEST', {
+    message: fields.map(({ path, message }) => (path ? `${path}: ${message}` : message)).join('; '),
+    fields,
+  })
+}
+
+// The parsed value, or an INVALID_REQUEST AppError
+export function parseInput<T extends z.ZodType>(schema: T, value: unknown): z.output<T> {
+  const result = schema.safeParse(value)
+  if (!result.success) throw validationError(result.error)
+  return result.data
+}
+
+const youtubeUrl = z.string({ error: 'Required' }).min(1, 'Required').describe('A YouTube video, playlist or channel URL')
+
+const timestamp = z.union([z.string(), z.number()])
+  .refine((value) => value === '' || parseTimestamp(value) !== null, 'must be seconds or a timestamp such as "1:30"')
+
+const filenameTemplate = z.string()
+  .superRefine((value, context) => {
+    const problem = validateFilenameTemplate(value)
+    if (problem) context.addIssue({ code: 'custom', message: problem })
+  })
+  .describe('Filename template, e.g. "{channel} - {title} [{id}].{ext}"')
+
+// Options shared by single, background and batch downloads
+export const downloadOptionsSchema = z.object({
+  mode: z.enum(['video', 'audio']).optional(),
+  quality: z.string().optional().describe('Maximum video height, e.g. "1080p"'),
+  container: z.enum(['mp4', 'mkv']).optional(),
+  audioFormat: z.enum(['m4a', 'opus', 'mp3']).optional(),
+  subtitles: z.string().optional().describe('Caption track id or language code to embed as a soft track'),
+  start: timestamp.optional().describe('Clip start, in seconds or as a timestamp such as "1:30"'),
+  end: timestamp.optional().describe('Clip end'),
+  accurate: z.boolean().optional().describe('Re-encode so the clip starts on the exact frame rather than a keyframe'),
+  codec: z.string().optional().describe('Preferred video codecs, most preferred first, e.g. "avc1" or "av1,vp9"'),
+  maxFps: z.number().positive().optional(),
+  hdr: z.boolean().optional().describe('Allow HDR formats'),
+  maxFileSize: z.number().positive().optional().describe('Bytes'),
+  embedThumbnail: z.boolean().optional().describe('Add the thumbnail as cover art (audio) or an attached picture (video)'),
+  embedMetadata: z.boolean().optional().describe('Write title, channel, upload date, description, URL and chapters into the file'),
+  filename: filenameTemplate.optional(),
+  live: z.enum(['now', 'start']).optional()
+    .describe('For a stream that is live right now: record from the live edge ("now") or from the oldest part YouTube keeps ("start"). Background jobs only'),
+  liveMinutes: z.number().positive().max(MAX_LIVE_MINUTES).optional()
+    .describe(`How many minutes of a live stream to record; without it, until the stream ends or ${MAX_LIVE_MINUTES / 60} hours`),
+  chapters: z.union([z.literal('all'), z.array(z.number().int().min(1)).min(1)]).optional()
+    .describe('Split into one file per chapter, bundled as a ZIP: "all", or the chapter numbers to include, counting from 1 in the order /api/info lists them. Replaces start and end'),
+})
+
+export const downloadRequestSchema = downloadOptionsSchema.extend({
+  url: youtubeUrl,
+})
+
+export const batchRequestSchema = downloadOptionsSchema.omit({
+  start: true,
+  end: true,
+  accurate: true,
+  live: true,
+  liveMinutes: true,
+  chapters: true,
+}).extend({
+  videoIds: z.array(z.string().regex(/^[\w-]{11}$/, 'must be a YouTube video ID'))
+    .min(1)
+    .max(MAX_BATCH_SIZE, `A batch can contain at most ${MAX_BATCH_SIZE} videos`),
+  title: z.string().optional().describe('Name for the ZIP file'),
+})
+
+export const urlQuerySchema = z.object({
+  url: youtubeUrl,
+})
+
+export const captionsQuerySchema = urlQuerySchema.extend({
+  track: z.string().optional().describe('Track id or language code; without it the available tracks are listed'),
+  format: z.enum(['srt', 'vtt', 'txt']).default('srt'),
+})
+
+export const thumbnailQuerySchema = urlQuerySchema.extend({
+  format: z.enum(['jpeg', 'webp', 'png']).default('jpeg'),
+  source: z.enum(['video', 'channel']).default('video'),
+})
+
+export const formatQuerySchema = z.object({
+  filename: filenameTemplate.optional(),
+})
+
+const quota = z.number().nonnegative().nullable().optional().describe('Per UTC day; null for unlimited, left out for the default')
+
+export const createApiKeyRequestSchema = z.object({
+  name: z.string().trim().min(1),
+  dailyRequestQuota: quota,
+  dailyByteQuota: quota,
+  recordHistory: z.boolean().optional().describe('Keep a server-side download history for the key'),
+})
+
+export type DownloadRequest = z.input<typeof downloadRequestSchema>
+export type BatchRequest = z.input<typeof batchRequestSchema>
+export type CaptionsQuery = z.input<typeof captionsQuerySchema>
+export type ThumbnailQuery = z.input<typeof thumbnailQuerySchema>
+export type CreateApiKeyRequest = z.input<typeof createApiKeyRequestSchema>
+
+// Responses
+
+const errorCodes = Object.keys(ERRORS) as [ErrorCode, ...ErrorCode[]]
+
+export const errorSchema: z.ZodType<ApiErrorBody> = z.object({
+  error: z.string(),
+  code: z.enum(errorCodes),
+  retryable: z.boolean(),
+  actions: z.array(z.enum(['retry', 'retry-after', 'change-quality', 'change-url', 'background-job', 'open-youtube'])),
+  details: z.string().optional(),
+  fields: z.array(z.object({ path: z.string(), message: z.string() })).optional(),
+  resetTime: z.number().optional().describe('Epoch ms, for RATE_LIMITED and QUOTA_EXCEEDED; the scheduled start for LIVE_UPCOMING'),
+  resetInSeconds: z.number().optional(),
+})
+
+const captionTrackSchema = z.object({
+  id: z.string(),
+  languageCode: z.string(),
+  name: z.string(),
+  autoGenerated: z.boolean(),
+})
+
+export const videoInfoSchema: z.ZodType<VideoInfoSummary> = z.object({
+  videoId: z.string(),
+  title: z.string(),
+  channel: z.string(),
+  channelUrl: z.string().nullable(),
+  uploadDate: z.string().nullable(),
+  durationSeconds: z.number(),
+  thumbnails: z.array(z.object({ url: z.string(), width: z.number(), height: z.number() })),
+  formats: z.array(z.object({
+    itag: z.number(),
+    qualityLabel: z.string().nullable(),
+    height: z.number().nullable(),
+    fps: z.number().nullable(),
+    codec: z.string().nullable(),
+    container: z.string(),
+    bitrate: z.number().nullable(),
+    audioBitrate: z.number().nullable(),
+    approxSize: z.number().nullable(),
+    hasVideo: z.boolean(),
+    hasAudio: z.boolean(),
+  })),
+  qualities: z.array(z.string()),
+  captions: z.array(captionTrackSchema),
+  chapters: z.array(z.object({ title: z.string(), start: z.number(), end: z.number() })).describe('Start and end in seconds'),
+  live: z.object({
+    isLiveNow: z.boolean(),
+    startTime: z.string().nullable(),
+    endTime: z.string().nullable(),
+  }).nullable().describe('Set for live streams and recordings of past ones'),
+})
+
+export const captionTracksSchema = z.object({
+  videoId: z.string(),
+  tracks: z.array(captionTrackSchema),
+})
+
+export const playlistSchema: z.ZodType<PlaylistSummary> = z.object({
+  playlistId: z.string(),
+  title: z.string(),
+  channel: z.string().nullable(),
+  totalItems: z.number(),
+  entries: z.array(z.object({
+    videoId: z.string(),
+    url: z.string(),
+    title: z.string(),
+    thumbnail: z.string().nullable(),
+    durationSeconds: z.number().nullable(),
+    channel: z.string().nullable(),
+  })),
+})
+
+export const jobStatusSchema: z.ZodType<JobStatus> = z.object({
+  id: z.string(),
+  state: z.enum(['queued', 'running', 'completed', 'failed']),
+  title: z.string().nullable(),
+  deliveredQuality: z.string().nullable(),
+  bytesDownloaded: z.number(),
+  totalBytes: z.number().nullable(),
+  bytesPerSecond: z.number().nullable(),
+  etaSeconds: z.number().nullable(),
+  error: z.string().nullable(),
+  errorCode: z.enum(errorCodes).nullable(),
+  fileUrl: z.string().nullable(),
+})
+
+export const apiKeySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  prefix: z.string(),
+  createdAt: z.string(),
+  revokedAt: z.string().nullable(),
+  dailyRequestQuota: z.number().nullable(),
+  dailyByteQuota: z.number().nullable(),
+  recordHistory: z.boolean(),
+})
+
+const usageCountSchema = z.object({ used: z.number(), limit: z.number().nullable() })
+
+export const usageSchema = z.object({
+  key: apiKeySchema,
+  date: z.string(),
+  requests: usageCountSchema,
+  bytes: usageCountSchema,
+  resetTime: z.number().describe('Epoch ms of the next midnight UTC'),
+})
+
+export const apiKeyListSchema = z.object({
+  keys: z.array(apiKeySchema.extend({
+    usage: z.object({ date: z.string(), requests: z.number(), bytes: z.number() }),
+  })),
+})
+
+export const createdApiKeySchema = apiKeySchema.extend({
+  key: z.string().describe('The plain key; only ever returned here'),
+})
+
+const historyEntrySchema: z.ZodType<DownloadHistoryEntry> = z.object({
+  id: z.string(),
+  videoId: z.string(),
+  url: z.string(),
+  title: z.string(),
+  thumbnail: z.string().nullable(),
+  mode: z.enum(['video', 'audio']),
+  deliveredQuality: z.string().nullable(),
+  format: z.string(),
+  size: z.number().nullable(),
+  downloadedAt: z.string(),
+})
+
+export const historySchema = z.object({
+  entries: z.array(historyEntrySchema),
+})
@@ -0,0 +1,177 @@
+// Caption tracks from the player response, fetched as YouTube's timed-text
+// XML and converted to SRT, WebVTT or plain text.
+
+import ytdl from '@distube/ytdl-core'
+import { AppError } from '@/lib/errors'
+
+export type CaptionFormat = 'srt' | 'vtt' | 'txt'
+
+export const CAPTION_FORMATS: { [key in CaptionFormat]: { contentType: string; extension: string } } = {
+  srt: { contentType: 'application/x-subrip; charset=utf-8', extension: 'srt' },
+  vtt: { contentType: 'text/vtt; charset=utf-8', extension: 'vtt' },
+  txt: { contentType: 'text/plain; charset=utf-8', extension: 'txt' },
+}
+
+export interface CaptionTrackSummary {
+  id: string // YouTube's vssId, e.g. ".en" or "a.en" for auto-generated
+  languageCode: string
+  name: string
+  autoGenerated: boolean
+}
+
+export interface CaptionCue {
+  start: number // seconds
+  end: number
+  text: string
+}
+
+function captionTracks(videoInfo: ytdl.videoInfo): ytdl.captionTrack[] {
+  return videoInfo.player_response?.captions?.playerCaptionsTracklistRenderer?.captionTracks || []
+}
+
+// ytdl-core types this as simpleText only, but newer player responses use runs
+// and some give a plain string
+type CaptionTrackName = { simpleText?: string; runs?: { text: string }[] } | string
+
+function trackName(track: ytdl.captionTrack): string {
+  const name: CaptionTrackName | undefined = track.name
+  if (typeof name === 'string') return name || track.languageCode
+  return name?.simpleText || name?.runs?.map((run) => run.text).join('') || track.languageCode
+}
+
+export function listCaptionTracks(videoInfo: ytdl.videoInfo): CaptionTrackSummary[] {
+  return captionTracks(videoInfo).map((track) => ({
+    id: track.vssId,
+    languageCode: track.languageCode,
+    name: trackName(track),
+    autoGenerated: track.kind === 'asr',
+  }))
+}
+
+// Accepts a track id or a bare language code, preferring a manual track over
+// an auto-generated one for the same language
+export function findCaptionTrack(videoInfo: ytdl.videoInfo, idOrLanguage: string): ytdl.captionTrack | null {
+  const tracks = captionTracks(videoInfo)
+  return tracks.find((track) => track.vssId === idOrLanguage)
+    || tracks.find((track) => track.languageCode === idOrLanguage && track.kind !== 'asr')
+    || tracks.find((track) => track.languageCode === idOrLanguage)
+    || null
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code, 10)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+}
+
+function cleanText(raw: string): string {
+  // Strip inline markup (<s> word timings, <font>, <br />) before decoding,
+  // so escaped angle brackets in the text itself survive
+  return decodeEntities(raw.replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]+>/g, ''))
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .join('\n')
+}
+
+function attribute(attributes: string, name: string): number {
+  const match = attributes.match(new RegExp(`\\b${name}="([\\d.]+)"`))
+  return match ? parseFloat(match[1]) : 0
+}
+
+// Handles both timed-text flavours YouTube serves: the classic
+// <text start="1.2" dur="3.4"> (seconds) and format 3 <p t="1200" d="3400"> (ms)
+export function parseCaptionXml(xml: string): CaptionCue[] {
+  const cues: CaptionCue[] = []
+
+  for (const match of Array.from(xml.matchAll(/<text\b([^>]*)>([\s\S]*?)<\/text>/g))) {
+    const start = attribute(match[1], 'start')
+    // The classic format escapes its text twice (&amp;#39;)
+    cues.push({ start, end: start + attribute(match[1], 'dur'), text: cleanText(decodeEntities(match[2])) })
+  }
+  for (const match of Array.from(xml.matchAll(/<p\b([^>]*)>([\s\S]*?)<\/p>/g))) {
+    const start = attribute(match[1], 't') / 1000
+    cues.push({ start, end: start + attribute(match[1], 'd') / 1000, text: cleanText(match[2]) })
+  }
+
+  const sorted = cues.filter((cue) => cue.text).sort((a, b) => a.start - b.start)
+  // Auto-generated captions overlap each cue with the next; clip them so
+  // players do not stack two lines on screen
+  sorted.forEach((cue, index) => {
+    const next = sorted[index + 1]
+    if (next && cue.end > next.start) cue.end = next.start
+  })
+  return sorted
+}
+
+function timestamp(seconds: number, separator: ',' | '.'): string {
+  const ms = Math.round(seconds * 1000)
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0')
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}${separator}${pad(ms % 1000, 3)}`
+}
+
+export function formatCaptions(cues: CaptionCue[], format: CaptionFormat): string {
+  if (format === 'txt') {
+    return cues.map((cue) => cue.text).join('\n') + '\n'
+  }
+  if (format === 'vtt') {
+    // WebVTT treats & and < as markup
+    const escape = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;')
+    const body = cues.map((cue) => `${timestamp(cue.start, '.')} --> ${timestamp(cue.end, '.')}\n${escape(cue.text)}`)
+    return ['WEBVTT', ...body].join('\n\n') + '\n'
+  }
+  return cues
+    .map((cue, index) => `${index + 1}\n${timestamp(cue.start, ',')} --> ${timestamp(cue.end, ',')}\n${cue.text}`)
+    .join('\n\n') + '\n'
+}
+
+export async function fetchCaptionCues(track: ytdl.captionTrack): Promise<CaptionCue[]> {
+  // The track URL may carry its own fmt; ask for the XML flavours we parse
+  const url = new URL(track.baseUrl)
+  url.searchParams.delete('fmt')
+
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new AppError('UPSTREAM_ERROR', { message: `YouTube returned status ${response.status} for this caption track.` })
+  }
+
+  const cues = parseCaptionXml(await response.text())
+  if (cues.length === 0) {
+    throw new AppError('NOT_FOUND', { message: 'This caption track is empty.' })
+  }
+  return cues
+}
+
+// Subtitles ready to be muxed in as a soft track
+export interface SubtitleTrack {
+  srt: string
+  language: string // ISO 639-2, as MP4 and Matroska expect
+  title: string
+}
+
+// Containers tag tracks with three-letter codes; YouTube uses two-letter ones
+const ISO_639_2: { [code: string]: string } = {
+  ar: 'ara', cs: 'ces', da: 'dan', de: 'deu', el: 'ell', en: 'eng', es: 'spa', fi: 'fin',
+  fr: 'fra', he: 'heb', hi: 'hin', hu: 'hun', id: 'ind', it: 'ita', ja: 'jpn', ko: 'kor',
+  nl: 'nld', no: 'nor', pl: 'pol', pt: 'por', ro: 'ron', ru: 'rus', sv: 'swe', th: 'tha',
+  tr: 'tur', uk: 'ukr', vi: 'vie', zh: 'zho',
+}
+
+export async function loadSubtitleTrack(videoInfo: ytdl.videoInfo, idOrLanguage: string): Promise<SubtitleTrack> {
+  const track = findCaptionTrack(videoInfo, idOrLanguage)
+  if (!track) {
+    throw new AppError('NOT_FOUND', { message: `No ${idOrLanguage} captions are available for this video.` })
+  }
+
+  const baseLanguage = track.languageCode.split('-')[0].toLowerCase()
+  return {
+    srt: formatCaptions(await fetchCaptionCues(track), 'srt'),
+    language: ISO_639_2[baseLanguage] || 'und',
+    title: trackName(track),
+  }
+}
@@ -0,0 +1,29 @@
+import ytdl from '@distube/ytdl-core'
+import { AppError } from '@/lib/errors'
+import { ChapterTrack, videoChapters } from '@/lib/metadata'
+
+// Splitting a video into one file per chapter, bundled as a ZIP. Each chapter
+// is cut out like a clip and tagged as a track of an album named after the
+// video, so a lecture or a full album imports into a music library in order.
+
+export type ChapterSelection = 'all' | number[] // chapter numbers, from 1
+
+// The selected chapters as tracks. They are numbered by their place among all
+// the video's chapters, so a partial selection keeps the right track numbers.
+export function chapterTracks(videoInfo: ytdl.videoInfo, selection: ChapterSelection): ChapterTrack[] {
+  const chapters = videoChapters(videoInfo)
+  if (chapters.length === 0) {
+    throw new AppError('INVALID_REQUEST', { message: 'This video has no chapters to split it by.' })
+  }
+
+  const numbers = selection === 'all'
+    ? chapters.map((_, index) => index + 1)
+    : Array.from(new Set(selection)).sort((a, b) => a - b)
+  const missing = numbers.find((number) => number < 1 || number > chapters.length)
+  if (missing !== undefined) {
+    throw new AppError('INVALID_REQUEST', {
+      message: `This video has ${chapters.length} chapters, so there is no chapter ${missing}.`,
+    })
+  }
+  return numbers.map((number) => ({ chapter: chapters[number - 1], number, total: chapters.length }))
+}
@@ -0,0 +1,126 @@
+// Works out who a request is from, for rate limiting and quotas.
+//
+// A valid API key always wins. Otherwise the client IP is taken from the
+// X-Forwarded-For chain, read right to left: each proxy appends the address
+// it received the request from, so everything left of the first hop we do
+// not trust may have been written by the client and is ignored. The chain is
+// only read when the operator says a proxy sits in front; without one the
+// whole header comes from the client.
+
+import { NextRequest } from 'next/server'
+import { Cidr, ParsedIp, cidrContains, clientNetwork, parseCidr, parseIp, stripPort } from '@/lib/ip-address'
+import { ApiKeyRecord } from '@/lib/api-key-store'
+import { authenticateApiKey, getBearerToken } from '@/lib/api-keys'
+
+export type ClientIdentityType = 'api-key' | 'ip' | 'anonymous'
+
+export interface ClientIdentity {
+  type: ClientIdentityType
+  key: string // stable bucket key, e.g. "ip:203.0.113.7" or "ip:2001:db8:1:2::/64"
+  ip: string | null // resolved client address, if any
+  apiKey?: ApiKeyRecord
+}
+
+// Loopback and private networks cover a reverse proxy on the same host or LAN
+const DEFAULT_TRUSTED_PROXIES = '127.0.0.0/8, ::1/128, 10.0.0.0/8, 172.16.0.0/12, 192.168.0.0/16, fc00::/7'
+
+function parseTrustedProxies(value: string): Cidr[] {
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .flatMap((entry) => {
+      const cidr = parseCidr(entry)
+      if (!cidr) console.warn(`Ignoring invalid TRUSTED_PROXIES entry: ${entry}`)
+      return cidr ? [cidr] : []
+    })
+}
+
+const TRUSTED_PROXIES = parseTrustedProxies(process.env.TRUSTED_PROXIES ?? DEFAULT_TRUSTED_PROXIES)
+// Set TRUST_PROXY=true only behind a reverse proxy that appends to
+// X-Forwarded-For. Next.js does not expose the socket address when self-hosted,
+// so without a proxy the header is all the client's own and is ignored.
+const TRUST_PROXY = process.env.TRUST_PROXY === 'true'
+// Vercel overwrites X-Forwarded-For and X-Real-IP at its edge, so they can be trusted as-is
+const ON_VERCEL = process.env.VERCEL === '1'
+
+function isTrustedProxy(ip: ParsedIp): boolean {
+  return TRUSTED_PROXIES.some((cidr) => cidrContains(cidr, ip))
+}
+
+// Walk the chain from the nearest hop outwards and return the first address
+// that is not one of our proxies
+export function resolveForwardedIp(chain: string[], trusted: (ip: ParsedIp) => boolean = isTrustedProxy): ParsedIp | null {
+  const hops = chain.map((entry) => parseIp(stripPort(entry.trim())))
+
+  for (let i = hops.length - 1; i >= 0; i--) {
+    const hop = hops[i]
+    // Garbage in the chain means whatever lies beyond it cannot be trusted either
+    if (!hop) return null
+    if (!trusted(hop)) return hop
+  }
+
+  // Every hop is a proxy, e.g. a health check from the proxy itself
+  return hops[0] ?? null
+}
+
+export function resolveClientIp(request: NextRequest): ParsedIp | null {
+  const forwardedFor = request.headers.get('x-forwarded-for')
+
+  if (ON_VERCEL) {
+    const address = request.ip || request.headers.get('x-real-ip') || forwardedFor?.split(',')[0]
+    return address ? parseIp(stripPort(address.trim())) : null
+  }
+
+  if (!TRUST_PROXY) {
+    return request.ip ? parseIp(stripPort(request.ip)) : null
+  }
+
+  // The socket address, when the runtime exposes it, is the nearest hop.
+  // Otherwise the proxy in front wrote the rightmost entry itself.
+  const chain = forwardedFor ? forwardedFor.split(',') : []
+  if (request.ip) chain.push(request.ip)
+  if (chain.length > 0) return resolveForwardedIp(chain)
+
+  // X-Real-IP holds a single address set by the proxy itself
+  const realIp = request.headers.get('x-real-ip')
+  return realIp ? parseIp(stripPort(realIp.trim())) : null
+}
+
+// Rate limiting and quota checks both need the identity, so it is resolved
+// once per request
+const resolved = new WeakMap<NextRequest, Promise<ClientIdentity>>()
+
+export function resolveClientIdentity(request: NextRequest): Promise<ClientIdentity> {
+  let identity = resolved.get(request)
+  if (!identity) {
+    identity = identify(request)
+    resolved.set(request, identity)
+  }
+  return identity
+}
+
+let warnedAnonymous = false
+
+async function identify(request: NextRequest): Promise<ClientIdentity> {
+  const ip = resolveClientIp(request)
+  const address = ip ? clientNetwork(ip) : null
+
+  const token = getBearerToken(request)
+  const apiKey = token ? await authenticateApiKey(token) : null
+  if (apiKey) {
+    return { type: 'api-key', key: `key:${apiKey.id}`, ip: address, apiKey }
+  }
+
+  if (address) {
+    return { type: 'ip', key: `ip:${address}`, ip: address }
+  }
+
+  // No usable address. Anything else on the request is the client's to change,
+  // so all such clients share one bucket rather than minting a new one each
+  if (!warnedAnonymous) {
+    warnedAnonymous = true
+    console.warn('No client address available; rate limiting all anonymous clients together. Set TRUST_PROXY=true behind a reverse proxy.')
+  }
+  return { type: 'anonymous', key: 'anon', ip: null }
+}
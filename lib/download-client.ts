@@ -0,0 +1,214 @@
+// Browser-side helpers for triggering file downloads from API responses
+
+import type { JobStatus } from '@/lib/jobs'
+import type { BatchRequest, DownloadRequest } from '@/lib/api-schemas'
+import { AppError } from '@/lib/errors'
+import { filenameFromContentDisposition } from '@/lib/filename'
+import { api } from '@/lib/api-client'
+
+const JOB_POLL_INTERVAL = 1000
+// How often streaming progress is reported, to avoid re-rendering per chunk
+const PROGRESS_INTERVAL = 250
+// Largest download to collect in memory before saving; larger ones would
+// also outlast the response time limit, so they run as background jobs
+export const MAX_BUFFERED_BYTES = 500 * 1024 * 1024
+
+// The File System Access API, in Chromium-based browsers only
+declare global {
+  interface Window {
+    showSaveFilePicker?: (options?: { suggestedName?: string }) => Promise<FileSystemFileHandle>
+  }
+}
+
+export interface StreamProgress {
+  bytesDownloaded: number
+  totalBytes: number | null
+  bytesPerSecond: number | null
+  etaSeconds: number | null
+}
+
+export interface StreamDownloadOptions {
+  signal?: AbortSignal
+  onProgress?: (progress: StreamProgress) => void
+  // Name to offer in the save dialog, where the browser supports writing to disk directly
+  suggestedName?: string
+  // Ask where to save first and write there as it arrives, where canPickSaveFile()
+  saveToDisk?: boolean
+}
+
+export interface SavedDownload {
+  filename: string
+  deliveredQuality: string | null
+  size: number | null // bytes received
+}
+
+export function filenameFromResponse(response: Response, fallback: string): string {
+  const contentDisposition = response.headers.get('Content-Disposition')
+  return (contentDisposition && filenameFromContentDisposition(contentDisposition)) || fallback
+}
+
+export function saveBlob(blob: Blob, filename: string) {
+  // Create a temporary link and trigger download
+  const downloadUrl = window.URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = downloadUrl
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  window.URL.revokeObjectURL(downloadUrl)
+}
+
+// Save a file response from the API client (e.g. api.captions or api.thumbnail)
+export async function saveResponse(response: Response, fallbackName: string): Promise<SavedDownload> {
+  const blob = await response.blob()
+  const filename = filenameFromResponse(response, fallbackName)
+  saveBlob(blob, filename)
+
+  return {
+    filename,
+    deliveredQuality: response.headers.get('X-Delivered-Quality'),
+    size: blob.size,
+  }
+}
+
+// Whether the browser can write a download straight to a file the user picks
+// (not Firefox or Safari)
+export function canPickSaveFile(): boolean {
+  return typeof window !== 'undefined' && typeof window.showSaveFilePicker === 'function'
+}
+
+// Ask where to save before the download starts, so it can be written to disk
+// as it arrives instead of being held in memory
+async function pickSaveFile(suggestedName?: string): Promise<FileSystemWritableFileStream | null> {
+  if (!window.showSaveFilePicker) return null
+
+  const handle = await window.showSaveFilePicker({ suggestedName })
+  return handle.createWritable()
+}
+
+// Request a download and read the response as a stream, reporting bytes
+// received, speed and ETA. Aborting the signal cancels the request, which
+// makes the server stop its YouTube stream.
+export async function streamDownload(
+  body: DownloadRequest,
+  fallbackName: string,
+  { signal, onProgress, suggestedName, saveToDisk }: StreamDownloadOptions = {}
+): Promise<SavedDownload> {
+  const writable = saveToDisk ? await pickSaveFile(suggestedName) : null
+
+  try {
+    const response = await api.download(body, { signal })
+    if (!response.body) {
+      throw new Error('This browser does not support streaming downloads')
+    }
+
+    const totalBytes = parseInt(
+      response.headers.get('Content-Length') || response.headers.get('X-Estimated-Size') || '',
+      10
+    ) || null
+    const startTime = Date.now()
+    let bytesDownloaded = 0
+    let lastReport = 0
+    const chunks: BlobPart[] = []
+
+    const report = () => {
+      const elapsedSeconds = (Date.now() - startTime) / 1000
+      const bytesPerSecond = elapsedSeconds > 0 ? Math.round(bytesDownloaded / elapsedSeconds) : null
+      onProgress?.({
+        bytesDownloaded,
+        totalBytes,
+        bytesPerSecond,
+        etaSeconds: totalBytes && bytesPerSecond
+          ? Math.max(0, Math.round((totalBytes - bytesDownloaded) / bytesPerSecond))
+          : null,
+      })
+    }
+
+    const reader = response.body.getReader()
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      bytesDownloaded += value.length
+      if (writable) {
+        await writable.write(value)
+      } else {
+        chunks.push(value as BlobPart)
+      }
+
+      if (Date.now() - lastReport > PROGRESS_INTERVAL) {
+        lastReport = Date.now()
+        report()
+      }
+    }
+    report()
+
+    const filename = filenameFromResponse(response, fallbackName)
+    if (writable) {
+      await writable.close()
+    } else {
+      saveBlob(new Blob(chunks, { type: response.headers.get('Content-Type') || undefined }), filename)
+    }
+
+    return {
+      filename,
+      deliveredQuality: response.headers.get('X-Delivered-Quality'),
+      size: bytesDownloaded,
+    }
+  } catch (error) {
+    // Discard the partially written file
+    await writable?.abort().catch(() => {})
+    throw error
+  }
+}
+
+// Let the browser download a URL directly, using the server's Content-Disposition
+export function saveUrl(url: string) {
+  const link = document.createElement('a')
+  link.href = url
+  link.download = ''
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+}
+
+// Start a background job, report its progress until it finishes, then save
+// the finished file
+export async function runDownloadJob(
+  body: DownloadRequest,
+  onProgress: (status: JobStatus) => void,
+  signal?: AbortSignal
+): Promise<JobStatus> {
+  return followJob(await api.createJob(body, { signal }), onProgress, signal)
+}
+
+// The same for a ZIP of several videos
+export async function runBatchJob(
+  body: BatchRequest,
+  onProgress: (status: JobStatus) => void,
+  signal?: AbortSignal
+): Promise<JobStatus> {
+  return followJob(await api.batch(body, { signal }), onProgress, signal)
+}
+
+async function followJob(
+  status: JobStatus,
+  onProgress: (status: JobStatus) => void,
+  signal?: AbortSignal
+): Promise<JobStatus> {
+  while (status.state === 'queued' || status.state === 'running') {
+    onProgress(status)
+    await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL))
+
+    status = await api.job(status.id, { signal })
+  }
+
+  onProgress(status)
+  if (status.state === 'failed' || !status.fileUrl) {
+    throw new AppError(status.errorCode || 'INTERNAL', { message: status.error || 'Download failed' })
+  }
+
+  saveUrl(status.fileUrl)
+  return status
+}
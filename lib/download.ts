@@ -0,0 +1,513 @@
+import ytdl from '@distube/ytdl-core'
+import type { z } from 'zod/v4'
+import { Readable } from 'stream'
+import { extractorFor } from '@/lib/extractor'
+import { ByteRange } from '@/lib/http-range'
+import {
+  muxStreams,
+  convertAudio,
+  clipStreams,
+  clipAudio,
+  recordLiveVideo,
+  recordLiveAudio,
+  supportsCoverArt,
+  ClipRange,
+  CoverArt,
+  LiveRecording,
+  OutputExtras,
+  MuxContainer,
+  RemoteInput,
+  AudioOutput,
+  AUDIO_OUTPUTS,
+  CONTAINERS,
+} from '@/lib/ffmpeg'
+import { AppError, classifyError } from '@/lib/errors'
+import { loadSubtitleTrack } from '@/lib/captions'
+import { parseTimestamp } from '@/lib/utils'
+import { selectFormats, FormatPreferences, VideoCodec, VIDEO_CODECS } from '@/lib/format-selection'
+import { fetchCoverArt } from '@/lib/thumbnails'
+import { uploadDate, videoMetadata, ChapterTrack } from '@/lib/metadata'
+import { chapterTracks } from '@/lib/chapters'
+import { zipEntries, ZipEntry } from '@/lib/zip'
+import { DEFAULT_FILENAME_TEMPLATE, renderFilename } from '@/lib/filename'
+import { isLiveNow, liveVariants, pickAudioVariant, pickVideoVariant, variantHeight } from '@/lib/live'
+import { MAX_LIVE_MINUTES, type downloadOptionsSchema } from '@/lib/api-schemas'
+
+// Vercel serverless function timeout is 60s for Hobby, 300s for Pro
+// We'll set a max timeout of 50s to be safe
+export const MAX_DOWNLOAD_TIME = 50000
+
+// Options accepted in a download request body; downloadOptionsSchema
+// describes each one
+export type DownloadOptions = z.output<typeof downloadOptionsSchema>
+
+export interface OpenedDownload {
+  stream: Readable
+  contentType: string
+  extension: string
+  deliveredQuality: string
+  estimatedSize: number | null // sum of the source formats' sizes (scaled down for clips); null when unknown or transcoded
+  contentLength: number | null // exact size, only known when a single format is passed through untouched
+  explanation: string[] // how the formats were chosen
+}
+
+export interface DownloadPlan {
+  video: ytdl.videoFormat
+  audio: ytdl.videoFormat | null // null when the video format already carries audio
+  container: MuxContainer
+  deliveredQuality: string
+  explanation: string[] // why these formats were chosen
+}
+
+export interface AudioPlan {
+  audio: ytdl.videoFormat
+  output: AudioOutput
+  transcode: boolean
+  deliveredQuality: string // e.g. '160kbps'
+}
+
+export function formatSize(format: ytdl.videoFormat): number | null {
+  const size = parseInt(format.contentLength, 10)
+  return size > 0 ? size : null
+}
+
+// Turn request options into format preferences, ignoring unknown codecs
+export function formatPreferences(options: DownloadOptions): FormatPreferences {
+  const codecs = String(options.codec || '')
+    .split(',')
+    .map((codec) => codec.trim().toLowerCase())
+    .filter((codec): codec is VideoCodec => VIDEO_CODECS.includes(codec as VideoCodec))
+  const maxFps = Number(options.maxFps)
+  const maxFileSize = Number(options.maxFileSize)
+
+  return {
+    // Map quality string (e.g. '1080p') to height
+    maxHeight: parseInt(options.quality || '', 10) || 1080,
+    container: options.container === 'mkv' ? 'mkv' : 'mp4',
+    codecs,
+    maxFps: maxFps > 0 ? maxFps : undefined,
+    allowHdr: options.hdr === true,
+    maxFileSize: maxFileSize > 0 ? maxFileSize : undefined,
+  }
+}
+
+export function planVideoDownload(formats: ytdl.videoFormat[], preferences: FormatPreferences): DownloadPlan | null {
+  const { choices, explanation } = selectFormats(formats, preferences)
+  if (choices.length === 0) {
+    // The size limit is the one preference never relaxed, so say that is why
+    if (preferences.maxFileSize) {
+      throw new AppError('FORMAT_UNAVAILABLE', { message: explanation[explanation.length - 1] })
+    }
+    return null
+  }
+
+  const { video, audio, height } = choices[0]
+  return { video, audio, container: preferences.container, deliveredQuality: `${height}p`, explanation }
+}
+
+// Pick the highest-bitrate audio-only format, preferring one that can be
+// passed through in the requested output without re-encoding
+export function planAudioDownload(formats: ytdl.videoFormat[], output: AudioOutput): AudioPlan | null {
+  const audioFormats = ytdl.filterFormats(formats, 'audioonly')
+    .filter((f) => !f.isHLS && !f.isDashMPD)
+    .sort((a, b) => (b.audioBitrate || 0) - (a.audioBitrate || 0) || (b.bitrate || 0) - (a.bitrate || 0))
+  if (audioFormats.length === 0) return null
+
+  const { sourceContainer } = AUDIO_OUTPUTS[output]
+  const passthrough = sourceContainer ? audioFormats.find((f) => f.container === sourceContainer) : undefined
+  const audio = passthrough || audioFormats[0]
+
+  return {
+    audio,
+    output,
+    transcode: !passthrough,
+    deliveredQuality: audio.audioBitrate ? `${audio.audioBitrate}kbps` : 'audio',
+  }
+}
+
+// range is inclusive on both ends, matching HTTP byte ranges. The format is
+// opened by whichever extractor produced the info.
+export function openFormat(videoInfo: ytdl.videoInfo, format: ytdl.videoFormat, range?: ByteRange): Readable {
+  return extractorFor(videoInfo).openStream(videoInfo, format, range)
+}
+
+// A format for ffmpeg to fetch itself, for clips and live recordings
+function remoteInput(videoInfo: ytdl.videoInfo, format: ytdl.videoFormat): RemoteInput {
+  return { url: format.url, headers: extractorFor(videoInfo).requestHeaders(format) }
+}
+
+function hasExtras(extras: OutputExtras): boolean {
+  return !!(extras.subtitles || extras.cover || extras.metadata)
+}
+
+// The cover art and metadata part of a cache key
+function extrasKey(extras: OutputExtras): string {
+  return [extras.cover ? 'cover' : '', extras.metadata ? 'metadata' : ''].join(':')
+}
+
+// A lone format already in the output container needs no ffmpeg step,
+// unless something has to be added to it
+function isPassthrough(plan: DownloadPlan, extras: OutputExtras): boolean {
+  return !plan.audio && !hasExtras(extras) && plan.container === plan.video.container
+}
+
+// Open the planned formats and return a single stream in the planned container.
+// A lone mp4 format is passed through untouched; everything else goes via ffmpeg.
+export function openPlan(
+  videoInfo: ytdl.videoInfo,
+  plan: DownloadPlan,
+  extras: OutputExtras = {}
+): Readable {
+  const video = openFormat(videoInfo, plan.video)
+  if (isPassthrough(plan, extras)) {
+    return video
+  }
+
+  const audio = plan.audio ? openFormat(videoInfo, plan.audio) : null
+  return muxStreams(video, audio, plan.container, extras)
+}
+
+export function openAudioPlan(videoInfo: ytdl.videoInfo, plan: AudioPlan, extras: OutputExtras = {}): Readable {
+  const audio = openFormat(videoInfo, plan.audio)
+  return plan.transcode || hasExtras(extras) ? convertAudio(audio, plan.output, plan.transcode, extras) : audio
+}
+
+// Fetches the thumbnail to embed as cover art
+type CoverFetcher = () => Promise<CoverArt | null>
+
+// The thumbnail to embed when one was asked for, with a note when it is left out
+async function coverArtFor(
+  videoInfo: ytdl.videoInfo,
+  options: DownloadOptions,
+  format: MuxContainer | AudioOutput,
+  fetchCover: CoverFetcher = () => fetchCoverArt(videoInfo)
+): Promise<{ cover: CoverArt | null; notes: string[] }> {
+  if (options.embedThumbnail !== true) return { cover: null, notes: [] }
+  if (!supportsCoverArt(format)) {
+    return { cover: null, notes: ['WebM cannot hold cover art, so the thumbnail was not embedded.'] }
+  }
+  const cover = await fetchCover()
+  return cover
+    ? { cover, notes: [] }
+    : { cover: null, notes: ['No thumbnail could be fetched, so none was embedded.'] }
+}
+
+// The requested time range, or null when the whole video is wanted
+export function parseClip(options: DownloadOptions, durationSeconds: number): ClipRange | null {
+  const hasStart = options.start !== undefined && options.start !== ''
+  const hasEnd = options.end !== undefined && options.end !== ''
+  if (!hasStart && !hasEnd) return null
+
+  const start = hasStart ? parseTimestamp(options.start!) : 0
+  const end = hasEnd ? parseTimestamp(options.end!) : durationSeconds
+  if (start === null || end === null) {
+    throw new AppError('INVALID_REQUEST', { message: 'Start and end must be timestamps such as 90, 1:30 or 1m30s.' })
+  }
+  if (durationSeconds > 0 && start >= durationSeconds) {
+    throw new AppError('INVALID_REQUEST', { message: 'The start time is past the end of the video.' })
+  }
+
+  const clippedEnd = durationSeconds > 0 ? Math.min(end, durationSeconds) : end
+  if (clippedEnd <= start) {
+    throw new AppError('INVALID_REQUEST', { message: 'The end time must be after the start time.' })
+  }
+  if (start === 0 && clippedEnd === durationSeconds) return null
+
+  return { start, end: clippedEnd, accurate: options.accurate === true }
+}
+
+// A planned download whose streams have not been opened yet
+export interface PreparedDownload extends Omit<OpenedDownload, 'stream'> {
+  cacheKey: string // identifies the output bytes: video, formats and processing
+  open(): Readable
+}
+
+function clipKey(clip: ClipRange | null): string {
+  return clip ? `${clip.start}-${clip.end}${clip.accurate ? '-accurate' : ''}` : ''
+}
+
+// A stream that is live right now is recorded from one of its HLS variants,
+// from the live edge or from the start of the DVR window, for the requested
+// number of minutes. The clip and subtitle options do not apply.
+async function prepareLiveRecording(
+  videoInfo: ytdl.videoInfo,
+  options: DownloadOptions
+): Promise<PreparedDownload | null> {
+  if (!options.live) throw new AppError('LIVE_STREAM')
+
+  const videoId = videoInfo.videoDetails.videoId
+  const recording: LiveRecording = {
+    fromStart: options.live === 'start',
+    seconds: Math.round(Math.min(options.liveMinutes ?? MAX_LIVE_MINUTES, MAX_LIVE_MINUTES) * 60),
+  }
+  const variants = liveVariants(videoInfo.formats)
+  const metadata = options.embedMetadata === true ? videoMetadata(videoInfo, null) : null
+  // Every recording is different, so none is ever served from a cache
+  const cacheKey = [videoId, 'live', options.live, recording.seconds, Date.now()].join(':')
+
+  if (options.mode === 'audio') {
+    const output: AudioOutput = options.audioFormat && options.audioFormat in AUDIO_OUTPUTS
+      ? options.audioFormat as AudioOutput
+      : 'm4a'
+    const variant = pickAudioVariant(variants)
+    if (!variant) return null
+    const { cover, notes } = await coverArtFor(videoInfo, options, output)
+    const extras: OutputExtras = { cover, metadata }
+
+    return {
+      open: () => recordLiveAudio(remoteInput(videoInfo, variant), output, recording, extras),
+      cacheKey,
+      contentType: AUDIO_OUTPUTS[output].contentType,
+      extension: AUDIO_OUTPUTS[output].extension,
+      deliveredQuality: variant.audioBitrate ? `${variant.audioBitrate}kbps` : 'audio',
+      estimatedSize: null,
+      contentLength: null,
+      explanation: notes,
+    }
+  }
+
+  const { maxHeight, container } = formatPreferences(options)
+  const variant = pickVideoVariant(variants, maxHeight)
+  if (!variant) return null
+  const { cover, notes } = await coverArtFor(videoInfo, options, container)
+  const extras: OutputExtras = { cover, metadata }
+
+  return {
+    open: () => recordLiveVideo(remoteInput(videoInfo, variant), container, recording, extras),
+    cacheKey,
+    contentType: CONTAINERS[container].contentType,
+    extension: CONTAINERS[container].extension,
+    deliveredQuality: `${variantHeight(variant)}p`,
+    estimatedSize: null,
+    contentLength: null,
+    explanation: notes,
+  }
+}
+
+// Each selected chapter cut out as its own file, named from its title and
+// tagged with its track number, bundled as a ZIP. The start and end options
+// are replaced by each chapter's range.
+async function prepareChapterSplit(
+  videoInfo: ytdl.videoInfo,
+  options: DownloadOptions
+): Promise<PreparedDownload | null> {
+  const tracks = chapterTracks(videoInfo, options.chapters!)
+  // Every chapter embeds the same thumbnail, so it is fetched once
+  let cover: Promise<CoverArt | null> | undefined
+  const fetchCover = () => (cover ??= fetchCoverArt(videoInfo))
+  const parts = await Promise.all(tracks.map((track) =>
+    prepareFile(videoInfo, { ...options, start: track.chapter.start, end: track.chapter.end }, track, fetchCover)
+  ))
+  if (parts.some((part) => part === null)) return null
+
+  const prepared = parts as PreparedDownload[]
+  const pad = String(tracks[0].total).length
+  const entries = prepared.map((part, index): ZipEntry => {
+    const name = `${String(tracks[index].number).padStart(pad, '0')} - ${downloadFilename(
+      videoInfo, part.extension, options.filename, part.deliveredQuality, tracks[index].chapter.title
+    )}`
+    return { label: name, open: async () => ({ name, stream: part.open() }) }
+  })
+  const sizes = prepared.map((part) => part.estimatedSize)
+
+  return {
+    open: () => zipEntries(entries),
+    cacheKey: ['chapters', ...prepared.map((part) => part.cacheKey)].join('|'),
+    contentType: 'application/zip',
+    extension: 'zip',
+    deliveredQuality: prepared[0].deliveredQuality,
+    estimatedSize: sizes.includes(null) ? null : (sizes as number[]).reduce((sum, size) => sum + size, 0),
+    contentLength: null,
+    explanation: prepared[0].explanation,
+  }
+}
+
+// Plan a download for the requested options, or return null when the video
+// has no format that can satisfy them. Nothing is fetched from YouTube until
+// open() is called, except the subtitle track and the thumbnail.
+export async function prepareDownload(
+  videoInfo: ytdl.videoInfo,
+  options: DownloadOptions
+): Promise<PreparedDownload | null> {
+  // The live options are ignored for anything else, so a stream that ended
+  // in the meantime downloads as the video it became
+  if (isLiveNow(videoInfo)) return prepareLiveRecording(videoInfo, options)
+  if (options.chapters) return prepareChapterSplit(videoInfo, options)
+  return prepareFile(videoInfo, options, null)
+}
+
+// A single file: the whole video, a clip of it, or one chapter as a track
+async function prepareFile(
+  videoInfo: ytdl.videoInfo,
+  options: DownloadOptions,
+  track: ChapterTrack | null,
+  fetchCover?: CoverFetcher
+): Promise<PreparedDownload | null> {
+  const videoId = videoInfo.videoDetails.videoId
+  const duration = parseInt(videoInfo.videoDetails.lengthSeconds, 10) || 0
+  const clip = parseClip(options, duration)
+  // Clips fetch only their segment, so scale the source sizes to match
+  const clipFraction = clip && duration > 0 ? (clip.end - clip.start) / duration : 1
+  const scale = (size: number | null) => (size === null ? null : Math.round(size * clipFraction))
+  // Chapter files are always tagged, since the track number is what orders them
+  const metadata = options.embedMetadata === true || track ? videoMetadata(videoInfo, clip, track) : null
+
+  if (options.mode === 'audio') {
+    const output: AudioOutput = options.audioFormat && options.audioFormat in AUDIO_OUTPUTS
+      ? options.audioFormat as AudioOutput
+      : 'm4a'
+    const plan = planAudioDownload(videoInfo.formats, output)
+    if (!plan) return null
+    const { cover, notes } = await coverArtFor(videoInfo, options, output, fetchCover)
+    const extras: OutputExtras = { cover, metadata }
+
+    return {
+      open: () => (clip
+        ? clipAudio(remoteInput(videoInfo, plan.audio), plan.output, clip, plan.transcode, extras)
+        : openAudioPlan(videoInfo, plan, extras)),
+      cacheKey: [videoId, 'audio', plan.audio.itag, output, clipKey(clip), extrasKey(extras)].join(':'),
+      contentType: AUDIO_OUTPUTS[output].contentType,
+      extension: AUDIO_OUTPUTS[output].extension,
+      deliveredQuality: plan.deliveredQuality,
+      estimatedSize: plan.transcode ? null : scale(formatSize(plan.audio)),
+      contentLength: plan.transcode || clip || hasExtras(extras) ? null : formatSize(plan.audio),
+      explanation: notes,
+    }
+  }
+
+  const preferences = formatPreferences(options)
+  const container = preferences.container
+  const plan = planVideoDownload(videoInfo.formats, preferences)
+  if (!plan) return null
+
+  // Fetched before any media stream is opened, so a missing track fails cleanly
+  const subtitles = options.subtitles ? await loadSubtitleTrack(videoInfo, options.subtitles) : null
+  const { cover, notes } = await coverArtFor(videoInfo, options, container, fetchCover)
+  const extras: OutputExtras = { subtitles, cover, metadata }
+
+  const videoSize = formatSize(plan.video)
+  const audioSize = plan.audio ? formatSize(plan.audio) : 0
+  const itags = [plan.video.itag, plan.audio?.itag].filter(Boolean).join('+')
+
+  return {
+    open: () => (clip
+      ? clipStreams(
+        remoteInput(videoInfo, plan.video),
+        plan.audio ? remoteInput(videoInfo, plan.audio) : null,
+        container,
+        clip,
+        extras
+      )
+      : openPlan(videoInfo, plan, extras)),
+    cacheKey: [
+      videoId, 'video', itags, container, subtitles ? options.subtitles : '', clipKey(clip), extrasKey(extras),
+    ].join(':'),
+    contentType: CONTAINERS[container].contentType,
+    extension: CONTAINERS[container].extension,
+    deliveredQuality: plan.deliveredQuality,
+    // Re-encoded clips have no predictable size
+    estimatedSize: videoSize !== null && audioSize !== null && !clip?.accurate ? scale(videoSize + audioSize) : null,
+    contentLength: isPassthrough(plan, extras) && !clip ? videoSize : null,
+    explanation: [...plan.explanation, ...notes],
+  }
+}
+
+// Plan and open a download for the requested options, or return null when
+// the video has no format that can satisfy them
+export async function openDownload(videoInfo: ytdl.videoInfo, options: DownloadOptions): Promise<OpenedDownload | null> {
+  const prepared = await prepareDownload(videoInfo, options)
+  if (!prepared) return null
+
+  const { open, cacheKey: _, ...download } = prepared
+  return { ...download, stream: open() }
+}
+
+// Higher resolutions take longer to fetch and mux, so they count for more
+// against the download rate limit
+export function downloadCost(options: DownloadOptions): number {
+  if (options.mode === 'audio') return 1
+  const height = parseInt(options.quality || '', 10) || 1080
+  return height >= 2160 ? 4 : height >= 1440 ? 2 : 1
+}
+
+// The name of a file made from this video, following a filename template.
+// `title` replaces the video title for a part of it, such as a chapter.
+export function downloadFilename(
+  videoInfo: ytdl.videoInfo,
+  extension: string,
+  template = DEFAULT_FILENAME_TEMPLATE,
+  quality: string | null = null,
+  title = videoInfo.videoDetails.title
+): string {
+  const details = videoInfo.videoDetails
+  return renderFilename(template, {
+    title,
+    channel: details.author?.name || details.ownerChannelName || '',
+    id: details.videoId,
+    date: uploadDate(videoInfo),
+    quality,
+    ext: extension,
+  })
+}
+
+// Wait for the first chunk of a stream, so that a failure opening it, such
+// as an expired URL, is thrown before a response has been sent. The returned
+// stream yields everything, that chunk included.
+export async function firstChunk(stream: Readable): Promise<Readable> {
+  const iterator: AsyncIterator<Buffer> = stream[Symbol.asyncIterator]()
+  const first = await iterator.next()
+  const rest = Readable.from((async function* () {
+    if (first.done) return
+    yield first.value
+    yield* { [Symbol.asyncIterator]: () => iterator }
+  })(), { objectMode: false })
+  // Stop the source when the client goes away
+  rest.once('close', () => stream.destroy())
+  return rest
+}
+
+// Wrap a Node stream in a web ReadableStream for a route response, cutting it
+// off once maxDuration has passed so the function is not killed mid-response
+export function toResponseStream(stream: Readable, maxDuration = MAX_DOWNLOAD_TIME): ReadableStream {
+  return new ReadableStream({
+    async start(controller) {
+      const startTime = Date.now()
+      let hasError = false
+
+      stream.on('data', (chunk: Buffer) => {
+        if (hasError) return
+
+        // Check timeout
+        if (Date.now() - startTime > maxDuration) {
+          stream.destroy()
+          controller.error(new AppError('TIMEOUT'))
+          hasError = true
+          return
+        }
+
+        try {
+          controller.enqueue(chunk)
+        } catch (err) {
+          hasError = true
+          stream.destroy()
+        }
+      })
+
+      stream.on('end', () => {
+        if (!hasError) {
+          controller.close()
+        }
+      })
+
+      stream.on('error', (error: Error) => {
+        hasError = true
+        console.error('Download stream failed:', error)
+        // Headers are already sent, so the best we can do is a clear message
+        controller.error(classifyError(error))
+      })
+    },
+    cancel() {
+      stream.destroy()
+    },
+  })
+}
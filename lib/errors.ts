@@ -0,0 +1,341 @@
+// Error codes shared by the API and the browser. The server classifies every
+// failure into one of these codes; the client uses the code to decide what
+// to offer the user (retry, pick another quality, wait out a rate limit...).
+// Safe to import from client components: no server-only dependencies.
+
+export type ErrorCode =
+  | 'INVALID_REQUEST'
+  | 'INVALID_URL'
+  | 'VIDEO_UNAVAILABLE'
+  | 'VIDEO_PRIVATE'
+  | 'AGE_RESTRICTED'
+  | 'REGION_LOCKED'
+  | 'ACCESS_DENIED'
+  | 'PLAYLIST_UNAVAILABLE'
+  | 'LIVE_UPCOMING'
+  | 'LIVE_STREAM'
+  | 'FORMAT_UNAVAILABLE'
+  | 'FORMAT_EXPIRED'
+  | 'EXTRACTOR_BROKEN'
+  | 'FFMPEG_MISSING'
+  | 'RATE_LIMITED'
+  | 'QUOTA_EXCEEDED'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'NOT_READY'
+  | 'FILE_EXPIRED'
+  | 'TIMEOUT'
+  | 'NETWORK_ERROR'
+  | 'UPSTREAM_ERROR'
+  | 'INTERNAL'
+
+// What the user can do about an error, in order of preference
+export type ErrorAction =
+  | 'retry' // try the same request again
+  | 'retry-after' // try again once resetInSeconds has passed
+  | 'change-quality' // pick a different quality or format
+  | 'change-url' // the URL itself is the problem
+  | 'background-job' // run the download as a background job instead
+  | 'open-youtube' // only watchable on YouTube itself
+
+export interface ErrorDefinition {
+  status: number
+  message: string
+  retryable: boolean
+  actions: ErrorAction[]
+}
+
+export const ERRORS: { [code in ErrorCode]: ErrorDefinition } = {
+  INVALID_REQUEST: {
+    status: 400,
+    message: 'The request is missing a field or has an invalid value.',
+    retryable: false,
+    actions: [],
+  },
+  INVALID_URL: {
+    status: 400,
+    message: 'Please enter a valid YouTube URL.',
+    retryable: false,
+    actions: ['change-url'],
+  },
+  VIDEO_UNAVAILABLE: {
+    status: 404,
+    message: 'Video not found. It may have been removed; please check the URL and try again.',
+    retryable: false,
+    actions: ['change-url'],
+  },
+  VIDEO_PRIVATE: {
+    status: 404,
+    message: 'This video is private.',
+    retryable: false,
+    actions: ['change-url'],
+  },
+  AGE_RESTRICTED: {
+    status: 403,
+    message: 'This video requires age verification and cannot be downloaded.',
+    retryable: false,
+    actions: ['open-youtube'],
+  },
+  REGION_LOCKED: {
+    status: 403,
+    message: 'This video is not available in the country the server is running in.',
+    retryable: false,
+    actions: ['open-youtube'],
+  },
+  ACCESS_DENIED: {
+    status: 403,
+    message: 'YouTube refused access to this video. It may be private or region-locked.',
+    retryable: true,
+    actions: ['retry', 'open-youtube'],
+  },
+  PLAYLIST_UNAVAILABLE: {
+    status: 404,
+    message: 'Playlist is unavailable, private, or an auto-generated mix.',
+    retryable: false,
+    actions: ['change-url'],
+  },
+  LIVE_UPCOMING: {
+    status: 409,
+    message: 'This live stream or premiere has not started yet.',
+    retryable: false,
+    actions: ['retry-after'],
+  },
+  LIVE_STREAM: {
+    status: 409,
+    message: 'This video is live right now. Record it as a background download, from now for a number of minutes or from the start of what YouTube keeps.',
+    retryable: false,
+    actions: ['background-job'],
+  },
+  FORMAT_UNAVAILABLE: {
+    status: 400,
+    message: 'No suitable format is available for this video at the selected quality.',
+    retryable: false,
+    actions: ['change-quality'],
+  },
+  FORMAT_EXPIRED: {
+    status: 410,
+    message: 'Video format is no longer available. YouTube may have expired the download link. Please try again or select a different quality.',
+    retryable: true,
+    actions: ['retry', 'change-quality'],
+  },
+  EXTRACTOR_BROKEN: {
+    status: 503,
+    message: 'YouTube has changed their page structure. The downloader library needs to be updated. This is a temporary issue - please try again later.',
+    retryable: true,
+    actions: ['retry'],
+  },
+  FFMPEG_MISSING: {
+    status: 500,
+    message: 'This download needs ffmpeg, which is not installed on the server. 360p and 720p videos and M4A audio do not need it.',
+    retryable: false,
+    actions: ['change-quality'],
+  },
+  RATE_LIMITED: {
+    status: 429,
+    message: 'Rate limit exceeded. Please wait a moment before trying again.',
+    retryable: true,
+    actions: ['retry-after'],
+  },
+  QUOTA_EXCEEDED: {
+    status: 429,
+    message: 'The daily quota for this API key has been used up. It resets at midnight UTC.',
+    retryable: true,
+    actions: ['retry-after'],
+  },
+  UNAUTHORIZED: {
+    status: 401,
+    message: 'Invalid or revoked API key.',
+    retryable: false,
+    actions: [],
+  },
+  FORBIDDEN: {
+    status: 403,
+    message: 'You do not have access to this endpoint.',
+    retryable: false,
+    actions: [],
+  },
+  NOT_FOUND: {
+    status: 404,
+    message: 'Not found.',
+    retryable: false,
+    actions: [],
+  },
+  NOT_READY: {
+    status: 409,
+    message: 'The file is not ready yet.',
+    retryable: true,
+    actions: ['retry'],
+  },
+  FILE_EXPIRED: {
+    status: 410,
+    message: 'The file is no longer available. Please download it again.',
+    retryable: true,
+    actions: ['retry'],
+  },
+  TIMEOUT: {
+    status: 504,
+    message: 'The download took too long and was stopped. Try a background download or a lower quality.',
+    retryable: true,
+    actions: ['background-job', 'change-quality'],
+  },
+  NETWORK_ERROR: {
+    status: 502,
+    message: 'The connection was interrupted. Please check your connection and try again.',
+    retryable: true,
+    actions: ['retry'],
+  },
+  UPSTREAM_ERROR: {
+    status: 502,
+    message: 'YouTube returned an unexpected error. Please try again.',
+    retryable: true,
+    actions: ['retry'],
+  },
+  INTERNAL: {
+    status: 500,
+    message: 'Failed to process video.',
+    retryable: true,
+    actions: ['retry'],
+  },
+}
+
+// A request field that failed validation, e.g. { path: 'videoIds.2', message: '...' }
+export interface FieldError {
+  path: string
+  message: string
+}
+
+// JSON body of every API error response
+export interface ApiErrorBody {
+  error: string
+  code: ErrorCode
+  retryable: boolean
+  actions: ErrorAction[]
+  details?: string
+  fields?: FieldError[] // for INVALID_REQUEST, every field that was wrong
+  resetTime?: number // epoch ms, for RATE_LIMITED and QUOTA_EXCEEDED; the scheduled start for LIVE_UPCOMING
+  resetInSeconds?: number
+}
+
+export interface AppErrorOptions {
+  message?: string
+  details?: string
+  fields?: FieldError[]
+  resetTime?: number
+}
+
+export class AppError extends Error {
+  readonly code: ErrorCode
+  readonly status: number
+  readonly retryable: boolean
+  readonly actions: ErrorAction[]
+  readonly details?: string
+  readonly fields?: FieldError[]
+  readonly resetTime?: number
+
+  constructor(code: ErrorCode, { message, details, fields, resetTime }: AppErrorOptions = {}) {
+    const definition = ERRORS[code]
+    super(message || definition.message)
+    this.name = 'AppError'
+    this.code = code
+    this.status = definition.status
+    this.retryable = definition.retryable
+    this.actions = definition.actions
+    this.details = details
+    this.fields = fields
+    this.resetTime = resetTime
+  }
+
+  get resetInSeconds(): number | undefined {
+    return this.resetTime === undefined
+      ? undefined
+      : Math.max(0, Math.ceil((this.resetTime - Date.now()) / 1000))
+  }
+
+  toJSON(): ApiErrorBody {
+    const body: ApiErrorBody = {
+      error: this.message,
+      code: this.code,
+      retryable: this.retryable,
+      actions: this.actions,
+    }
+    if (this.details) body.details = this.details
+    if (this.fields) body.fields = this.fields
+    if (this.resetTime !== undefined) {
+      body.resetTime = this.resetTime
+      body.resetInSeconds = this.resetInSeconds
+    }
+    return body
+  }
+
+  // Rebuild an error from an API response body. Bodies without a known code
+  // (e.g. from a proxy in front of the app) are classified by status.
+  static fromBody(body: any, status: number): AppError {
+    const code: ErrorCode = body?.code in ERRORS
+      ? body.code
+      : status === 429 ? 'RATE_LIMITED' : status === 401 ? 'UNAUTHORIZED' : status === 504 ? 'TIMEOUT' : 'INTERNAL'
+    return new AppError(code, {
+      message: typeof body?.error === 'string' ? body.error : undefined,
+      details: body?.details,
+      fields: Array.isArray(body?.fields) ? body.fields : undefined,
+      resetTime: body?.resetTime,
+    })
+  }
+
+  static async fromResponse(response: Response): Promise<AppError> {
+    const body = await response.json().catch(() => null)
+    return AppError.fromBody(body, response.status)
+  }
+}
+
+// Map anything thrown (by ytdl-core, ytpl, ffmpeg, fetch...) to an AppError.
+// The libraries report most failures as plain messages, so this is the one
+// place that matches on message text.
+export function classifyError(error: any): AppError {
+  if (error instanceof AppError) return error
+
+  const message: string = error?.message || ''
+  const statusCode: number | undefined = error?.statusCode
+
+  // ytdl-core failing to parse the watch page, the player script or its API responses
+  if (/watch\.html|Could not match|Unable to find html5player|Player JSON API failed|Malformed response from YouTube/.test(message)) {
+    return new AppError('EXTRACTOR_BROKEN', {
+      details: 'YouTube frequently updates their page structure. The library maintainers are working on a fix.',
+    })
+  }
+  if (message.includes('ffmpeg is not installed')) return new AppError('FFMPEG_MISSING')
+  if (message.includes('Private video')) return new AppError('VIDEO_PRIVATE')
+  if (message.includes('confirm your age') || message.includes('age-restricted')) return new AppError('AGE_RESTRICTED')
+  if (/available in your country|blocked it in your country/i.test(message)) return new AppError('REGION_LOCKED')
+  if (message.includes('Unknown Playlist') || message.includes('Unsupported playlist') || message.includes('Mixes not supported')) {
+    return new AppError('PLAYLIST_UNAVAILABLE')
+  }
+  // YouTube's reasons for a stream or premiere that has not started, e.g. "Premieres in 3 hours"
+  if (/live event will begin|Premieres? (in|will begin)|live stream is offline/i.test(message)) {
+    return new AppError('LIVE_UPCOMING', { details: message })
+  }
+  if (message.includes('Video unavailable') || message.includes('not found')) return new AppError('VIDEO_UNAVAILABLE')
+  if (/timeout|timed out|ETIMEDOUT/i.test(message) || error?.name === 'TimeoutError') return new AppError('TIMEOUT')
+
+  // Then by the HTTP status YouTube answered with
+  const status = statusCode ?? httpStatusIn(message)
+  if (status === 410) return new AppError('FORMAT_EXPIRED')
+  if (status === 403 || status === 401) return new AppError('ACCESS_DENIED')
+  if (status === 404) return new AppError('VIDEO_UNAVAILABLE')
+  if (status && status >= 500) return new AppError('UPSTREAM_ERROR')
+
+  if (/ECONNRESET|ECONNREFUSED|EAI_AGAIN|socket hang up|Failed to fetch|NetworkError|network error/i.test(message)) {
+    return new AppError('NETWORK_ERROR')
+  }
+
+  // The message may hold file paths or subprocess output, so clients get the
+  // generic one; callers log the original
+  return new AppError('INTERNAL')
+}
+
+// The status in how ytdl-core ("Status code: 403"), yt-dlp ("HTTP Error 403")
+// and ffmpeg ("Server returned 403 Forbidden") report a failed request
+function httpStatusIn(message: string): number | undefined {
+  const match = message.match(/\b(?:Status code:|HTTP Error|Server returned) (\d{3})\b/)
+  return match ? parseInt(match[1], 10) : undefined
+}
@@ -0,0 +1,165 @@
+import ytdl from '@distube/ytdl-core'
+import { Readable } from 'stream'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { Extractor, ExtractorName, extractInfo, extractorFor, ytdlCoreExtractor } from '@/lib/extractor'
+import { AppError, classifyError, ErrorCode } from '@/lib/errors'
+
+const VIDEO_ID = 'dQw4w9WgXcQ'
+
+// Stands in for ytdl-core or yt-dlp: answers getInfo with the given info, or
+// throws the given error
+function fakeExtractor(name: ExtractorName, result: ytdl.videoInfo | Error): Extractor & { calls: number } {
+  const extractor = {
+    name,
+    calls: 0,
+    async getInfo() {
+      extractor.calls++
+      if (result instanceof Error) throw result
+      return result
+    },
+    openStream: () => Readable.from([]),
+    requestHeaders: () => ({}),
+  }
+  return extractor
+}
+
+function fakeInfo(source: string): ytdl.videoInfo {
+  return { videoDetails: { videoId: VIDEO_ID, title: source } } as unknown as ytdl.videoInfo
+}
+
+function httpError(statusCode: number): Error {
+  return Object.assign(new Error(`Status code: ${statusCode}`), { statusCode })
+}
+
+function run(...extractors: Extractor[]) {
+  return extractInfo(VIDEO_ID, (extractor) => extractor.getInfo(VIDEO_ID), extractors)
+}
+
+// How each kind of failure from the primary extractor is classified, and
+// whether the fallback gets a turn
+const FAILURES: [string, Error, ErrorCode, boolean][] = [
+  ['a watch page it cannot parse', new Error('Could not match the watch page for config'), 'EXTRACTOR_BROKEN', true],
+  ['a player script it cannot find', new Error('Unable to find html5player file'), 'EXTRACTOR_BROKEN', true],
+  ['a malformed API response', new Error('Malformed response from YouTube'), 'EXTRACTOR_BROKEN', true],
+  ['403 Forbidden', httpError(403), 'ACCESS_DENIED', true],
+  ['401 Unauthorized', httpError(401), 'ACCESS_DENIED', true],
+  ['an unrecognised error', new Error('Cannot read properties of undefined'), 'INTERNAL', true],
+  ['a private video', new Error('Private video. Sign in if you\'ve been granted access'), 'VIDEO_PRIVATE', false],
+  ['an age-restricted video', new Error('Sign in to confirm your age'), 'AGE_RESTRICTED', false],
+  ['a region lock', new Error('The uploader has not made this video available in your country'), 'REGION_LOCKED', false],
+  ['a removed video', new Error('Video unavailable'), 'VIDEO_UNAVAILABLE', false],
+  ['404 Not Found', httpError(404), 'VIDEO_UNAVAILABLE', false],
+  ['410 Gone', httpError(410), 'FORMAT_EXPIRED', false],
+  ['a premiere', new Error('Premieres in 3 hours'), 'LIVE_UPCOMING', false],
+  ['an upcoming live event', new Error('This live event will begin in 2 days'), 'LIVE_UPCOMING', false],
+  ['a timeout', new Error('connect ETIMEDOUT 142.250.0.1:443'), 'TIMEOUT', false],
+  ['a dropped connection', new Error('socket hang up'), 'NETWORK_ERROR', false],
+  ['a server error', httpError(503), 'UPSTREAM_ERROR', false],
+]
+
+describe('extractInfo', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('uses the primary extractor when it works', async () => {
+    const primary = fakeExtractor('ytdl-core', fakeInfo('primary'))
+    const fallback = fakeExtractor('yt-dlp', fakeInfo('fallback'))
+
+    const info = await run(primary, fallback)
+    expect(info.videoDetails.title).toBe('primary')
+    expect(fallback.calls).toBe(0)
+    expect(extractorFor(info)).toBe(primary)
+  })
+
+  it('runs getInfo through the attempt wrapper', async () => {
+    const primary = fakeExtractor('ytdl-core', fakeInfo('primary'))
+    const attempt = vi.fn((extractor: Extractor) => extractor.getInfo(VIDEO_ID))
+
+    await extractInfo(VIDEO_ID, attempt, [primary])
+    expect(attempt).toHaveBeenCalledWith(primary)
+  })
+
+  it('opens formats of info it did not produce with ytdl-core', () => {
+    expect(extractorFor(fakeInfo('elsewhere'))).toBe(ytdlCoreExtractor)
+  })
+
+  describe.each(FAILURES)('when the primary fails with %s', (_, error, code, fallsBack) => {
+    it(`classifies it as ${code}`, () => {
+      expect(classifyError(error).code).toBe(code)
+    })
+
+    if (fallsBack) {
+      it('answers from the fallback, which then opens its formats', async () => {
+        const primary = fakeExtractor('ytdl-core', error)
+        const fallback = fakeExtractor('yt-dlp', fakeInfo('fallback'))
+
+        const info = await run(primary, fallback)
+        expect(info.videoDetails.title).toBe('fallback')
+        expect(extractorFor(info)).toBe(fallback)
+        expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('ytdl-core failed'))
+      })
+
+      it('throws the primary error when there is no fallback', async () => {
+        await expect(run(fakeExtractor('ytdl-core', error))).rejects.toBe(error)
+      })
+    } else {
+      it('throws it without trying the fallback', async () => {
+        const primary = fakeExtractor('ytdl-core', error)
+        const fallback = fakeExtractor('yt-dlp', fakeInfo('fallback'))
+
+        await expect(run(primary, fallback)).rejects.toBe(error)
+        expect(fallback.calls).toBe(0)
+      })
+    }
+  })
+
+  describe('when both extractors fail', () => {
+    it('throws the fallback error when it says what is wrong with the video', async () => {
+      const fallbackError = new Error('Private video')
+      const primary = fakeExtractor('ytdl-core', new Error('Could not match the watch page'))
+      const fallback = fakeExtractor('yt-dlp', fallbackError)
+
+      await expect(run(primary, fallback)).rejects.toBe(fallbackError)
+    })
+
+    it('throws the primary error when the fallback is not installed', async () => {
+      const primaryError = new Error('Could not match the watch page')
+      const primary = fakeExtractor('ytdl-core', primaryError)
+      const fallback = fakeExtractor('yt-dlp', new Error('yt-dlp is not installed on the server. Set YTDLP_PATH or install yt-dlp.'))
+
+      await expect(run(primary, fallback)).rejects.toBe(primaryError)
+    })
+
+    it('throws the primary error when the fallback fails for an unknown reason', async () => {
+      const primaryError = httpError(403)
+      const primary = fakeExtractor('ytdl-core', primaryError)
+      const fallback = fakeExtractor('yt-dlp', new Error('yt-dlp exited with code 1'))
+
+      await expect(run(primary, fallback)).rejects.toBe(primaryError)
+      expect(fallback.calls).toBe(1)
+    })
+  })
+})
+
+describe('classifyError', () => {
+  it.each([
+    ['yt-dlp', 'ERROR: unable to download video data: HTTP Error 403: Forbidden', 'ACCESS_DENIED'],
+    ['ffmpeg', 'ffmpeg exited with code 1: Server returned 404 Not Found', 'VIDEO_UNAVAILABLE'],
+  ] as const)('reads the HTTP status from a %s message', (_, message, code) => {
+    expect(classifyError(new Error(message)).code).toBe(code)
+  })
+
+  it('ignores status-like digits elsewhere in a message', () => {
+    expect(classifyError(new Error('ENOENT: no such file /tmp/job-4103/video.mp4')).code).toBe('INTERNAL')
+  })
+
+  it('does not pass unrecognised messages on to the client', () => {
+    const error = classifyError(new Error('ENOENT: no such file /tmp/job-4103/video.mp4'))
+    expect(error.message).toBe(new AppError('INTERNAL').message)
+  })
+})
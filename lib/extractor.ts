@@ -0,0 +1,106 @@
+import ytdl from '@distube/ytdl-core'
+import { Readable } from 'stream'
+import { ByteRange } from '@/lib/http-range'
+import { ErrorCode, classifyError } from '@/lib/errors'
+import { ytDlpExtractor } from '@/lib/ytdlp'
+
+// An extractor fetches video info and opens format streams. ytdl-core breaks
+// whenever YouTube changes its player, so yt-dlp is kept as a fallback; both
+// produce ytdl-core's videoInfo shape so the rest of the app does not care
+// which one answered.
+export interface Extractor {
+  name: ExtractorName
+  getInfo(videoId: string): Promise<ytdl.videoInfo>
+  // range is inclusive on both ends, matching HTTP byte ranges
+  openStream(videoInfo: ytdl.videoInfo, format: ytdl.videoFormat, range?: ByteRange): Readable
+  // Headers to send when something else (ffmpeg) fetches the format's URL
+  requestHeaders(format: ytdl.videoFormat): { [name: string]: string }
+}
+
+export type ExtractorName = 'ytdl-core' | 'yt-dlp'
+
+// Enhanced request options with latest headers
+export const requestOptions = {
+  requestOptions: {
+    headers: {
+      'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+      'Accept': '*/*',
+      'Accept-Language': 'en-US,en;q=0.9',
+      'Accept-Encoding': 'gzip, deflate, br',
+      'Referer': 'https://www.youtube.com/',
+      'Origin': 'https://www.youtube.com',
+      'Sec-Fetch-Dest': 'empty',
+      'Sec-Fetch-Mode': 'cors',
+      'Sec-Fetch-Site': 'same-origin',
+    },
+  },
+}
+
+export const ytdlCoreExtractor: Extractor = {
+  name: 'ytdl-core',
+  getInfo: (videoId) => ytdl.getInfo(videoId, requestOptions),
+  openStream: (videoInfo, format, range) => ytdl.downloadFromInfo(videoInfo, { format, range, ...requestOptions }),
+  requestHeaders: () => ({}),
+}
+
+const EXTRACTORS: { [name in ExtractorName]: Extractor } = {
+  'ytdl-core': ytdlCoreExtractor,
+  'yt-dlp': ytDlpExtractor,
+}
+
+// EXTRACTOR picks the primary backend (default ytdl-core); EXTRACTOR_FALLBACK
+// picks the one tried when it breaks (default: the other one, "none" to disable)
+function configuredExtractors(): Extractor[] {
+  const primaryName: ExtractorName = process.env.EXTRACTOR === 'yt-dlp' ? 'yt-dlp' : 'ytdl-core'
+  const fallbackSetting = process.env.EXTRACTOR_FALLBACK
+  const fallbackName = fallbackSetting === 'none'
+    ? null
+    : fallbackSetting && fallbackSetting in EXTRACTORS
+      ? fallbackSetting as ExtractorName
+      : primaryName === 'ytdl-core' ? 'yt-dlp' : 'ytdl-core'
+
+  const primary = EXTRACTORS[primaryName]
+  return fallbackName && fallbackName !== primaryName ? [primary, EXTRACTORS[fallbackName]] : [primary]
+}
+
+// Failures that say more about the extractor than about the video, so another
+// extractor may well succeed. A private or removed video fails everywhere.
+const FALLBACK_CODES: ErrorCode[] = ['EXTRACTOR_BROKEN', 'ACCESS_DENIED', 'INTERNAL']
+
+// Remember which extractor produced each info object, so its formats are
+// opened by the same one
+const infoSources = new WeakMap<ytdl.videoInfo, Extractor>()
+
+export function extractorFor(videoInfo: ytdl.videoInfo): Extractor {
+  return infoSources.get(videoInfo) || ytdlCoreExtractor
+}
+
+// Try each configured extractor in turn. getInfo runs through `attempt`, which
+// lets the caller wrap it with retries.
+export async function extractInfo(
+  videoId: string,
+  attempt: (extractor: Extractor) => Promise<ytdl.videoInfo>,
+  extractors: Extractor[] = configuredExtractors()
+): Promise<ytdl.videoInfo> {
+  let firstError: unknown = null
+
+  for (const extractor of extractors) {
+    try {
+      const videoInfo = await attempt(extractor)
+      infoSources.set(videoInfo, extractor)
+      return videoInfo
+    } catch (error: any) {
+      const { code } = classifyError(error)
+      if (firstError === null) {
+        firstError = error
+        if (!FALLBACK_CODES.includes(code)) throw error
+      } else if (code !== 'INTERNAL') {
+        // The fallback worked well enough to say what is wrong with the video
+        throw error
+      }
+      console.warn(`${extractor.name} failed for ${videoId}: ${error?.message}`)
+    }
+  }
+
+  throw firstError
+}
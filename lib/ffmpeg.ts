@@ -0,0 +1,421 @@
+import { ChildProcess, spawn } from 'child_process'
+import crypto from 'crypto'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { PassThrough, pipeline, Readable, Writable } from 'stream'
+import type { SubtitleTrack } from '@/lib/captions'
+import { MediaMetadata, toFfmetadata } from '@/lib/metadata'
+
+// ffmpeg must be on the PATH of the server (or pointed to by FFMPEG_PATH).
+// Vercel's runtime does not ship it, so self-hosted deployments are needed
+// for anything that goes through this module.
+export const FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg'
+
+export type MuxContainer = 'mp4' | 'mkv'
+
+export const CONTAINERS: { [key in MuxContainer]: { contentType: string; extension: string } } = {
+  mp4: { contentType: 'video/mp4', extension: 'mp4' },
+  mkv: { contentType: 'video/x-matroska', extension: 'mkv' },
+}
+
+export type AudioOutput = 'm4a' | 'opus' | 'mp3'
+
+// sourceContainer is the YouTube container that can be passed through as-is;
+// mp3 has none, so it is always transcoded
+export const AUDIO_OUTPUTS: {
+  [key in AudioOutput]: {
+    contentType: string
+    extension: string
+    sourceContainer: string | null
+    codecArgs: string[]
+    formatArgs: string[]
+  }
+} = {
+  m4a: {
+    contentType: 'audio/mp4',
+    extension: 'm4a',
+    sourceContainer: 'mp4',
+    codecArgs: ['-c:a', 'aac', '-b:a', '192k'],
+    formatArgs: ['-movflags', 'frag_keyframe+empty_moov', '-f', 'mp4'],
+  },
+  opus: {
+    contentType: 'audio/webm',
+    extension: 'webm',
+    sourceContainer: 'webm',
+    codecArgs: ['-c:a', 'libopus', '-b:a', '160k'],
+    formatArgs: ['-f', 'webm'],
+  },
+  mp3: {
+    contentType: 'audio/mpeg',
+    extension: 'mp3',
+    sourceContainer: null,
+    codecArgs: ['-c:a', 'libmp3lame', '-q:a', '2'],
+    formatArgs: ['-f', 'mp3'],
+  },
+}
+
+// Keep the last few lines of stderr so failures carry a useful message
+const STDERR_TAIL_BYTES = 2000
+
+// Start ffmpeg with each input stream wired to pipe:3, pipe:4, ... A failing
+// input or a non-zero exit is passed to fail.
+function spawnFfmpeg(args: string[], inputs: Readable[], fail: (error: Error) => void): ChildProcess {
+  const child = spawn(FFMPEG_PATH, ['-hide_banner', '-loglevel', 'error', ...args], {
+    stdio: ['ignore', 'pipe', 'pipe', ...inputs.map(() => 'pipe' as const)],
+  })
+  let stderr = ''
+
+  child.stderr?.on('data', (chunk: Buffer) => {
+    stderr = (stderr + chunk.toString()).slice(-STDERR_TAIL_BYTES)
+  })
+
+  child.on('error', (error: NodeJS.ErrnoException) => {
+    fail(error.code === 'ENOENT'
+      ? new Error('ffmpeg is not installed on the server. Set FFMPEG_PATH or install ffmpeg.')
+      : error)
+  })
+
+  child.on('close', (code) => {
+    if (code !== 0 && code !== null) {
+      fail(new Error(`ffmpeg exited with code ${code}: ${stderr.trim()}`))
+    }
+  })
+
+  inputs.forEach((input, index) => {
+    const pipe = child.stdio[3 + index] as Writable
+    // ffmpeg may close its end early (e.g. when it has read enough); ignore EPIPE
+    pipe.on('error', () => {})
+    input.on('error', fail)
+    input.pipe(pipe)
+  })
+
+  return child
+}
+
+// Kill ffmpeg and its inputs once nobody is reading the output any more
+function stopWithOutput(output: Readable, child: ChildProcess, inputs: Readable[]) {
+  output.on('close', () => {
+    if (child.exitCode === null) child.kill('SIGKILL')
+    inputs.forEach((input) => input.destroy())
+  })
+}
+
+// Run ffmpeg with each input stream wired to pipe:3, pipe:4, ... and return
+// its stdout. Destroying the returned stream kills ffmpeg and its inputs, and
+// a failing input or a non-zero exit surfaces as an 'error' on the output.
+export function runFfmpeg(args: string[], inputs: Readable[] = []): Readable {
+  let output: Readable | null = null
+  const fail = (error: Error) => {
+    if (output && !output.destroyed) output.destroy(error)
+  }
+
+  const child = spawnFfmpeg(args, inputs, fail)
+  output = child.stdout as Readable
+  stopWithOutput(output, child, inputs)
+  return output
+}
+
+// Like runFfmpeg, for outputs that need a seekable file: ffmpeg writes to a
+// temporary file, which is streamed once ffmpeg has finished and then removed.
+// Nothing is sent until the whole file is written.
+export function runFfmpegToFile(args: string[], inputs: Readable[], extension: string): Readable {
+  const tmpPath = path.join(os.tmpdir(), `ffmpeg-${crypto.randomBytes(8).toString('hex')}.${extension}`)
+  const output = new PassThrough()
+  const removeFile = () => {
+    fs.promises.rm(tmpPath, { force: true }).catch(() => {})
+  }
+  const fail = (error: Error) => {
+    if (!output.destroyed) output.destroy(error)
+  }
+
+  const child = spawnFfmpeg([...args, '-y', tmpPath], inputs, fail)
+  child.stdout?.resume()
+  child.on('close', (code) => {
+    if (code !== 0 || output.destroyed) {
+      // A non-zero exit has already failed the output; this covers a kill
+      fail(new Error('ffmpeg was stopped before it finished'))
+      return removeFile()
+    }
+    pipeline(fs.createReadStream(tmpPath), output, removeFile)
+  })
+  stopWithOutput(output, child, inputs)
+  return output
+}
+
+// Output flags for writing a container to a non-seekable pipe
+export function containerArgs(container: MuxContainer): string[] {
+  return container === 'mp4'
+    ? ['-movflags', 'frag_keyframe+empty_moov', '-f', 'mp4']
+    : ['-f', 'matroska']
+}
+
+// Codec and tag flags for a subtitle track. MP4 only carries mov_text
+// subtitles; Matroska takes SRT as-is.
+function subtitleArgs(subtitles: SubtitleTrack, container: MuxContainer): string[] {
+  return [
+    '-c:s', container === 'mp4' ? 'mov_text' : 'srt',
+    '-metadata:s:s:0', `language=${subtitles.language}`,
+    '-metadata:s:s:0', `title=${subtitles.title}`,
+  ]
+}
+
+export interface CoverArt {
+  image: Buffer
+  contentType: string // as served, e.g. 'image/jpeg'
+}
+
+// Additions to a download beyond its audio and video streams
+export interface OutputExtras {
+  subtitles?: SubtitleTrack | null // video outputs only
+  cover?: CoverArt | null
+  metadata?: MediaMetadata | null
+}
+
+// WebM has no way to carry a picture
+export function supportsCoverArt(format: MuxContainer | AudioOutput): boolean {
+  return format !== 'opus'
+}
+
+// Map the cover image from input `input` as attached picture `index` among
+// the output's video streams. MP4 and MP3 take JPEG or PNG, so anything else
+// is converted to JPEG.
+function coverArtArgs(cover: CoverArt, input: number, index: number): string[] {
+  const copy = cover.contentType === 'image/jpeg' || cover.contentType === 'image/png'
+  const [mimeType, extension] = cover.contentType === 'image/png' ? ['image/png', 'png'] : ['image/jpeg', 'jpg']
+  return [
+    '-map', `${input}:v:0`,
+    `-c:v:${index}`, copy ? 'copy' : 'mjpeg',
+    `-disposition:v:${index}`, 'attached_pic',
+    // Matroska stores the picture as a file attachment, which needs a name and type
+    `-metadata:s:v:${index}`, `mimetype=${mimeType}`,
+    `-metadata:s:v:${index}`, `filename=cover.${extension}`,
+    // MP3 takes the picture type from the comment
+    `-metadata:s:v:${index}`, 'comment=Cover (front)',
+  ]
+}
+
+interface ExtraArgs {
+  inputArgs: string[]
+  outputArgs: string[] // placed after the codec flags, so they override them
+  inputs: Readable[]
+}
+
+// Flags and piped inputs for the cover art and metadata. They become ffmpeg
+// input `input` onwards, read from pipe `pipe` onwards; the cover becomes
+// video stream `coverIndex` of the output.
+function extraArgs(extras: OutputExtras, input: number, pipe: number, coverIndex: number): ExtraArgs {
+  const args: ExtraArgs = { inputArgs: [], outputArgs: [], inputs: [] }
+  const addInput = (data: Buffer | string, format?: string) => {
+    args.inputArgs.push(...(format ? ['-f', format] : []), '-i', `pipe:${pipe + args.inputs.length}`)
+    args.inputs.push(Readable.from([data]))
+    return input + args.inputs.length - 1
+  }
+
+  if (extras.cover) {
+    args.outputArgs.push(...coverArtArgs(extras.cover, addInput(extras.cover.image), coverIndex))
+  }
+  if (extras.metadata) {
+    const metadataInput = addInput(toFfmetadata(extras.metadata), 'ffmetadata')
+    args.outputArgs.push('-map_metadata', String(metadataInput), '-map_chapters', String(metadataInput))
+  }
+  return args
+}
+
+// A fragmented MP4 sends its header, where the cover art goes, before the
+// picture has been read, so MP4 with cover art is written via a file
+function runToOutput(args: string[], inputs: Readable[], formatArgs: string[], hasCover: boolean): Readable {
+  if (hasCover && formatArgs.includes('mp4')) {
+    return runFfmpegToFile([...args, '-f', 'mp4'], inputs, 'mp4')
+  }
+  return runFfmpeg([...args, ...formatArgs, 'pipe:1'], inputs)
+}
+
+// Combine a video-only and an audio-only stream (or remux a single stream)
+// into one container without re-encoding, optionally adding subtitles as a
+// soft track that players can switch on and off, cover art and metadata
+export function muxStreams(
+  video: Readable,
+  audio: Readable | null,
+  container: MuxContainer,
+  extras: OutputExtras = {}
+): Readable {
+  const inputs = audio ? [video, audio] : [video]
+  const inputArgs = inputs.flatMap((_, index) => ['-i', `pipe:${3 + index}`])
+  const maps = audio ? ['-map', '0:v:0', '-map', '1:a:0'] : ['-map', '0']
+  const codecArgs = ['-c', 'copy']
+
+  if (extras.subtitles) {
+    // SRT text, which ffmpeg cannot always detect from a pipe
+    inputArgs.push('-f', 'srt', '-i', `pipe:${3 + inputs.length}`)
+    maps.push('-map', `${inputs.length}:s:0`)
+    inputs.push(Readable.from([extras.subtitles.srt]))
+    codecArgs.push(...subtitleArgs(extras.subtitles, container))
+  }
+
+  const extra = extraArgs(extras, inputs.length, 3 + inputs.length, 1)
+  return runToOutput(
+    [...inputArgs, ...extra.inputArgs, ...maps, ...codecArgs, ...extra.outputArgs],
+    [...inputs, ...extra.inputs],
+    containerArgs(container),
+    !!extras.cover
+  )
+}
+
+export interface ClipRange {
+  start: number // seconds
+  end: number
+  accurate: boolean // re-encode the video so the cut lands on the exact frame
+}
+
+// A format ffmpeg fetches itself, with the headers its extractor says the
+// URL needs (yt-dlp formats are refused without them)
+export interface RemoteInput {
+  url: string
+  headers?: { [name: string]: string }
+}
+
+function remoteInputArgs({ url, headers = {} }: RemoteInput): string[] {
+  const lines = Object.entries(headers).map(([name, value]) => `${name}: ${value}\r\n`).join('')
+  return [...(lines ? ['-headers', lines] : []), '-i', url]
+}
+
+// Seeking on a URL input makes ffmpeg fetch with HTTP range requests, so only
+// the part of the file around the clip is downloaded
+function clipInputArgs(clip: ClipRange, source: RemoteInput): string[] {
+  return ['-ss', String(clip.start), '-t', String(clip.end - clip.start), ...remoteInputArgs(source)]
+}
+
+// Cut a time range out of remote formats. Without `accurate` the streams
+// are copied, so the clip starts at the keyframe at or before `start`.
+export function clipStreams(
+  video: RemoteInput,
+  audio: RemoteInput | null,
+  container: MuxContainer,
+  clip: ClipRange,
+  extras: OutputExtras = {}
+): Readable {
+  const inputArgs = clipInputArgs(clip, video)
+  const maps = audio ? ['-map', '0:v:0'] : ['-map', '0']
+  const codecArgs = clip.accurate
+    ? ['-c:v', 'libx264', '-preset', 'veryfast', '-crf', '20', '-c:a', 'copy']
+    : ['-c', 'copy', '-avoid_negative_ts', 'make_zero']
+
+  if (audio) {
+    inputArgs.push(...clipInputArgs(clip, audio))
+    maps.push('-map', '1:a:0')
+  }
+
+  // Piped inputs are numbered after the URL inputs
+  let input = audio ? 2 : 1
+  const inputs: Readable[] = []
+  if (extras.subtitles) {
+    // Seeking the subtitle input the same way shifts the cues to match
+    inputArgs.push('-f', 'srt', ...clipInputArgs(clip, { url: 'pipe:3' }))
+    maps.push('-map', `${input++}:s:0`)
+    inputs.push(Readable.from([extras.subtitles.srt]))
+    codecArgs.push(...subtitleArgs(extras.subtitles, container))
+  }
+
+  // The cover flags follow the codec flags, so a re-encoded clip still copies the picture
+  const extra = extraArgs(extras, input, 3 + inputs.length, 1)
+  return runToOutput(
+    [...inputArgs, ...extra.inputArgs, ...maps, ...codecArgs, ...extra.outputArgs],
+    [...inputs, ...extra.inputs],
+    containerArgs(container),
+    !!extras.cover
+  )
+}
+
+// Stream selection and codec flags for an audio output read from input 0
+function audioArgs(output: AudioOutput, transcode: boolean): string[] {
+  return ['-map', '0:a:0', ...(transcode ? AUDIO_OUTPUTS[output].codecArgs : ['-c:a', 'copy'])]
+}
+
+// Cut a time range out of a remote audio format, copying it when the
+// output can hold the source codec and transcoding otherwise
+export function clipAudio(
+  audio: RemoteInput,
+  output: AudioOutput,
+  clip: ClipRange,
+  transcode: boolean,
+  extras: OutputExtras = {}
+): Readable {
+  const extra = extraArgs(extras, 1, 3, 0)
+  return runToOutput(
+    [...clipInputArgs(clip, audio), ...extra.inputArgs, ...audioArgs(output, transcode), ...extra.outputArgs],
+    extra.inputs,
+    AUDIO_OUTPUTS[output].formatArgs,
+    !!extras.cover
+  )
+}
+
+// Put an audio stream into the requested output format, re-encoding it when
+// `transcode` is set and copying it otherwise (to add cover art or metadata)
+export function convertAudio(
+  audio: Readable,
+  output: AudioOutput,
+  transcode: boolean,
+  extras: OutputExtras = {}
+): Readable {
+  const extra = extraArgs(extras, 1, 4, 0)
+  return runToOutput(
+    ['-i', 'pipe:3', ...extra.inputArgs, ...audioArgs(output, transcode), ...extra.outputArgs],
+    [audio, ...extra.inputs],
+    AUDIO_OUTPUTS[output].formatArgs,
+    !!extras.cover
+  )
+}
+
+export interface LiveRecording {
+  fromStart: boolean // begin at the oldest segment the playlist lists (the DVR window) rather than the live edge
+  seconds: number // stop after this long, or sooner if the stream ends
+}
+
+// ffmpeg keeps reloading a live HLS playlist, so it follows the stream until
+// the recording is long enough or the stream ends. By default it joins three
+// segments behind the live edge.
+function liveInputArgs(recording: LiveRecording, playlist: RemoteInput): string[] {
+  return ['-live_start_index', recording.fromStart ? '0' : '-3', ...remoteInputArgs(playlist)]
+}
+
+// Record a live HLS variant, which carries video and audio together, without
+// re-encoding
+export function recordLiveVideo(
+  playlist: RemoteInput,
+  container: MuxContainer,
+  recording: LiveRecording,
+  extras: OutputExtras = {}
+): Readable {
+  const extra = extraArgs(extras, 1, 3, 1)
+  return runToOutput(
+    [
+      ...liveInputArgs(recording, playlist), ...extra.inputArgs,
+      '-map', '0:v:0', '-map', '0:a:0', '-c', 'copy', ...extra.outputArgs,
+      '-t', String(recording.seconds),
+    ],
+    extra.inputs,
+    containerArgs(container),
+    !!extras.cover
+  )
+}
+
+// Record the audio of a live HLS variant. It is AAC, so only M4A is a copy.
+export function recordLiveAudio(
+  playlist: RemoteInput,
+  output: AudioOutput,
+  recording: LiveRecording,
+  extras: OutputExtras = {}
+): Readable {
+  const extra = extraArgs(extras, 1, 3, 0)
+  return runToOutput(
+    [
+      ...liveInputArgs(recording, playlist), ...extra.inputArgs,
+      ...audioArgs(output, output !== 'm4a'), ...extra.outputArgs,
+      '-t', String(recording.seconds),
+    ],
+    extra.inputs,
+    AUDIO_OUTPUTS[output].formatArgs,
+    !!extras.cover
+  )
+}
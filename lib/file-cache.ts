@@ -0,0 +1,182 @@
+import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+import { pipeline, Readable, Transform } from 'stream'
+
+// Finished downloads kept on disk so a repeat request for the same video and
+// formats is served from the file instead of YouTube. Files are named by a
+// hash of their cache key; the least recently served are evicted first once
+// the total size passes the limit.
+
+export interface CachedFile {
+  size: number
+  stream: Readable
+}
+
+export interface FileCache {
+  get(key: string): Promise<CachedFile | null>
+  // Pass the source through unchanged, saving a copy once it ends cleanly
+  store(key: string, source: Readable): Readable
+}
+
+interface IndexEntry {
+  size: number
+  lastAccess: number
+}
+
+function fileName(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex')
+}
+
+export function createFileCache(directory: string, maxBytes: number): FileCache {
+  const index = new Map<string, IndexEntry>()
+  // Files being written, so two requests for one key do not both save it
+  const pending = new Set<string>()
+  let totalBytes = 0
+  let loaded: Promise<void> | null = null
+
+  const filePath = (name: string) => path.join(directory, name)
+
+  // Rebuild the index from the directory on first use, so the cache
+  // survives restarts; leftovers from interrupted writes are removed
+  const load = () => {
+    loaded ??= (async () => {
+      await fs.promises.mkdir(directory, { recursive: true })
+      for (const name of await fs.promises.readdir(directory)) {
+        if (name.endsWith('.tmp')) {
+          await fs.promises.rm(filePath(name), { force: true })
+        } else if (/^[0-9a-f]{64}$/.test(name)) {
+          const stats = await fs.promises.stat(filePath(name))
+          index.set(name, { size: stats.size, lastAccess: stats.mtimeMs })
+          totalBytes += stats.size
+        }
+      }
+    })()
+    return loaded
+  }
+
+  const remove = async (name: string) => {
+    const entry = index.get(name)
+    if (!entry) return
+    index.delete(name)
+    totalBytes -= entry.size
+    await fs.promises.rm(filePath(name), { force: true })
+  }
+
+  const evict = async () => {
+    const oldestFirst = Array.from(index.entries()).sort((a, b) => a[1].lastAccess - b[1].lastAccess)
+    for (const [name] of oldestFirst) {
+      if (totalBytes <= maxBytes) break
+      await remove(name)
+    }
+  }
+
+  const commit = async (name: string, tmpPath: string) => {
+    const { size } = await fs.promises.stat(tmpPath)
+    if (size > maxBytes) {
+      await fs.promises.rm(tmpPath, { force: true })
+      return
+    }
+    // The rename replaces any older copy, so only its index entry is dropped.
+    // load() must run first, or its directory scan would count the new file.
+    await load()
+    const previous = index.get(name)
+    if (previous) {
+      index.delete(name)
+      totalBytes -= previous.size
+    }
+    await fs.promises.rename(tmpPath, filePath(name))
+    index.set(name, { size, lastAccess: Date.now() })
+    totalBytes += size
+    await evict()
+  }
+
+  return {
+    async get(key) {
+      await load()
+      const name = fileName(key)
+      const entry = index.get(name)
+      if (!entry) return null
+
+      try {
+        // The mtime doubles as the last access time after a restart
+        const now = new Date()
+        await fs.promises.utimes(filePath(name), now, now)
+        entry.lastAccess = now.getTime()
+        return { size: entry.size, stream: fs.createReadStream(filePath(name)) }
+      } catch (error: any) {
+        if (error.code !== 'ENOENT') throw error
+        // Removed behind our back
+        index.delete(name)
+        totalBytes -= entry.size
+        return null
+      }
+    },
+
+    store(key, source) {
+      const name = fileName(key)
+      if (pending.has(name)) return source
+      pending.add(name)
+
+      const tmpPath = filePath(`${name}.${crypto.randomBytes(4).toString('hex')}.tmp`)
+      fs.mkdirSync(directory, { recursive: true })
+      const file = fs.createWriteStream(tmpPath)
+      let writeFailed = false
+      // A full disk should not break the download itself
+      file.on('error', (error) => {
+        writeFailed = true
+        console.error('File cache write error:', error)
+      })
+
+      const discard = () => {
+        pending.delete(name)
+        file.destroy()
+        fs.promises.rm(tmpPath, { force: true }).catch(() => {})
+      }
+
+      const tee = new Transform({
+        transform(chunk, _, callback) {
+          if (writeFailed || file.write(chunk)) return callback(null, chunk)
+          // Hold the download back while the disk catches up, rather than
+          // buffering the rest of the stream in memory
+          const resume = () => {
+            file.off('drain', resume)
+            file.off('error', resume)
+            callback(null, chunk)
+          }
+          file.on('drain', resume)
+          file.on('error', resume)
+        },
+      })
+
+      // The copy is only kept when the whole source came through; a client
+      // disconnect or an upstream error leaves a partial file to discard
+      pipeline(source, tee, (error) => {
+        if (error || writeFailed) return discard()
+        file.end(() => {
+          commit(name, tmpPath)
+            .catch((commitError) => {
+              console.error('File cache commit error:', commitError)
+              return fs.promises.rm(tmpPath, { force: true })
+            })
+            .finally(() => pending.delete(name))
+        })
+      })
+
+      return tee
+    },
+  }
+}
+
+const FILE_CACHE_MAX_BYTES = process.env.FILE_CACHE_MAX_BYTES
+  ? parseInt(process.env.FILE_CACHE_MAX_BYTES, 10)
+  : 5 * 1024 * 1024 * 1024
+
+// Off unless FILE_CACHE_DIR is set: the cache needs a persistent disk, which
+// serverless deployments do not have
+const registry = globalThis as unknown as { downloadFileCache?: FileCache | null }
+registry.downloadFileCache ??= process.env.FILE_CACHE_DIR
+  ? createFileCache(process.env.FILE_CACHE_DIR, FILE_CACHE_MAX_BYTES)
+  : null
+
+export const fileCache: FileCache | null = registry.downloadFileCache
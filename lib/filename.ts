@@ -0,0 +1,164 @@
+// Output filenames: templates such as "{channel} - {title} [{id}].{ext}",
+// sanitized so any title (Japanese, Arabic, emoji) gives a name that Windows,
+// macOS and Linux all accept. Shared by the routes and the page, so no Node
+// imports.
+
+export interface FilenameFields {
+  title: string
+  channel: string
+  id: string
+  date: string | null // upload date, YYYY-MM-DD
+  quality: string | null // delivered quality, e.g. '1080p' or '160kbps'
+  ext: string
+}
+
+export const DEFAULT_FILENAME_TEMPLATE = '{title}.{ext}'
+
+export const FILENAME_PLACEHOLDERS = ['title', 'channel', 'id', 'date', 'quality', 'height', 'ext'] as const
+
+export const FILENAME_TEMPLATE_PRESETS = [
+  DEFAULT_FILENAME_TEMPLATE,
+  '{channel} - {title}.{ext}',
+  '{title} [{id}].{ext}',
+  '{channel} - {title} [{id}] {height}p.{ext}',
+  '{date} {title}.{ext}',
+]
+
+const MAX_TEMPLATE_LENGTH = 200
+// ext4, APFS and NTFS all allow 255; counting UTF-8 bytes covers the strictest
+const MAX_FILENAME_BYTES = 255
+
+// Characters Windows forbids, swapped for look-alikes rather than dropped so
+// "Q&A: Part 1/2" stays readable
+const RESERVED_REPLACEMENTS: { [char: string]: string } = {
+  '<': '＜',
+  '>': '＞',
+  ':': '：',
+  '"': '＂',
+  '/': '⧸',
+  '\\': '⧹',
+  '|': '｜',
+  '?': '？',
+  '*': '＊',
+}
+
+// Device names Windows will not use as a file name, with or without an extension
+const WINDOWS_DEVICE_NAMES = /^(con|prn|aux|nul|com[0-9]|lpt[0-9])(\..*)?$/i
+
+// Control characters, and the bidirectional overrides that can disguise an extension
+const UNSAFE_CHARACTERS = /[\u0000-\u001f\u007f-\u009f\u202a-\u202e\u2066-\u2069]/g
+
+// An error message for a template that cannot be used, or null
+export function validateFilenameTemplate(template: unknown): string | null {
+  if (typeof template !== 'string' || !template.trim()) {
+    return 'filename must be a non-empty template string'
+  }
+  if (template.length > MAX_TEMPLATE_LENGTH) {
+    return `filename templates are limited to ${MAX_TEMPLATE_LENGTH} characters`
+  }
+  const unknown = Array.from(template.matchAll(/\{([^}]*)\}/g))
+    .map((match) => match[1])
+    .find((name) => !(FILENAME_PLACEHOLDERS as readonly string[]).includes(name))
+  if (unknown !== undefined) {
+    return `Unknown placeholder {${unknown}} in filename. Use ${FILENAME_PLACEHOLDERS.map((name) => `{${name}}`).join(', ')}.`
+  }
+  return null
+}
+
+function utf8Length(text: string): number {
+  return new TextEncoder().encode(text).length
+}
+
+// Cut to a byte length without splitting a character
+function truncateBytes(text: string, maxBytes: number): string {
+  let result = ''
+  for (const char of Array.from(text)) {
+    if (utf8Length(result + char) > maxBytes) break
+    result += char
+  }
+  return result
+}
+
+// Make a name safe on every common filesystem. `extension` is kept whole when
+// the name has to be shortened; `fallback` is used when nothing is left.
+export function sanitizeFilename(name: string, extension = '', fallback = 'download'): string {
+  const suffix = extension && name.endsWith(`.${extension}`) ? `.${extension}` : ''
+  let stem = (suffix ? name.slice(0, -suffix.length) : name)
+    .normalize('NFC')
+    .replace(/[<>:"/\\|?*]/g, (char) => RESERVED_REPLACEMENTS[char])
+    .replace(UNSAFE_CHARACTERS, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    // A leading dot hides the file on Unix; Windows drops trailing dots and spaces
+    .replace(/^\.+/, '')
+    .replace(/[. ]+$/, '')
+
+  if (!stem) stem = fallback
+  if (WINDOWS_DEVICE_NAMES.test(stem)) stem = `_${stem}`
+
+  return truncateBytes(stem, MAX_FILENAME_BYTES - utf8Length(suffix)).trim() + suffix
+}
+
+// Marks where a placeholder had no value, until its separator is removed.
+// Control characters are stripped from the template and values first, so a
+// NUL in a title cannot be mistaken for it.
+const EMPTY_FIELD = '\u0000'
+
+// Fill in a template and sanitize the result. A template without {ext} gets
+// the extension appended.
+export function renderFilename(template: string, fields: FilenameFields): string {
+  const height = fields.quality?.match(/^(\d+)p/)?.[1] || ''
+  const values: { [name: string]: string } = {
+    title: fields.title.replace(UNSAFE_CHARACTERS, ''),
+    channel: fields.channel.replace(UNSAFE_CHARACTERS, ''),
+    id: fields.id.replace(UNSAFE_CHARACTERS, ''),
+    date: fields.date || '',
+    quality: fields.quality || '',
+    height,
+    ext: fields.ext,
+  }
+
+  const cleanTemplate = template.replace(UNSAFE_CHARACTERS, '')
+  let withExtension = cleanTemplate.includes('{ext}') ? cleanTemplate : `${cleanTemplate}.{ext}`
+  // Audio has no height, and "{height}p" should not leave a stray "p"
+  if (!height) withExtension = withExtension.replace(/\{height\}p/g, '{height}')
+
+  // An empty field takes its brackets and the separator before it along (or
+  // after it, at the start), so "{title} - {date}" gives "Title", not "Title -"
+  const name = withExtension
+    .replace(/\{(\w+)\}/g, (match, placeholder: string) => (values[placeholder] ?? match) || EMPTY_FIELD)
+    .replace(/\[\u0000+\]|\(\u0000+\)/g, EMPTY_FIELD)
+    .replace(/^\u0000+[\s_-]*/, '')
+    .replace(/[\s._-]*\u0000+/g, '')
+  return sanitizeFilename(name, fields.ext, fields.id || 'download')
+}
+
+// RFC 6266 Content-Disposition with the UTF-8 name in filename* (RFC 5987)
+// and an ASCII approximation in filename for clients that ignore it
+export function contentDisposition(filename: string): string {
+  // NFKD splits accents off ("é" to "e") but also turns the look-alikes
+  // back into reserved characters, so those are replaced again
+  const ascii = filename
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7e]/g, '_')
+    .replace(/[<>:"/\\|?*]/g, '_')
+  // encodeURIComponent leaves ' ( ) * unescaped, which RFC 5987 does not allow
+  const encoded = encodeURIComponent(filename).replace(/['()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)
+  return `attachment; filename="${ascii}"; filename*=UTF-8''${encoded}`
+}
+
+// The filename from a Content-Disposition header, preferring filename*
+export function filenameFromContentDisposition(header: string): string | null {
+  const extended = header.match(/filename\*\s*=\s*([^']*)'[^']*'([^;]+)/i)
+  if (extended) {
+    try {
+      return decodeURIComponent(extended[2].trim())
+    } catch {
+      // Malformed encoding; fall back to the plain parameter
+    }
+  }
+  const plain = header.match(/filename\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^;]+))/i)
+  if (!plain) return null
+  return plain[1] !== undefined ? plain[1].replace(/\\(.)/g, '$1') : plain[2].trim()
+}
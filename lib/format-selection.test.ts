@@ -0,0 +1,165 @@
+import fs from 'fs'
+import path from 'path'
+import ytdl from '@distube/ytdl-core'
+import { describe, expect, it } from 'vitest'
+import { planAudioDownload, planVideoDownload } from '@/lib/download'
+import { FormatPreferences, isHdr } from '@/lib/format-selection'
+
+// videoFormat lists in the shape ytdl-core returns them, see lib/__fixtures__
+function loadFormats(name: string): ytdl.videoFormat[] {
+  const file = path.join(__dirname, '__fixtures__', `${name}.json`)
+  return JSON.parse(fs.readFileSync(file, 'utf8')).formats
+}
+
+const HD = loadFormats('formats-1080p')
+const UHD_HDR = loadFormats('formats-2160p60-hdr')
+const LEGACY = loadFormats('formats-legacy-240p')
+
+function preferences(overrides: Partial<FormatPreferences> = {}): FormatPreferences {
+  return { maxHeight: 1080, container: 'mp4', ...overrides }
+}
+
+function planSummary(formats: ytdl.videoFormat[], overrides: Partial<FormatPreferences> = {}) {
+  const plan = planVideoDownload(formats, preferences(overrides))
+  return plan && {
+    video: plan.video.itag,
+    audio: plan.audio?.itag ?? null,
+    deliveredQuality: plan.deliveredQuality,
+    explanation: plan.explanation,
+  }
+}
+
+describe('planVideoDownload', () => {
+  it.each([
+    [
+      'best H.264 at the height limit, with AAC for MP4',
+      HD, {}, 137, 140, '1080p',
+      ['Chose 1080p avc1 with separate audio (itag 137).'],
+    ],
+    [
+      'the highest bitrate audio for MKV',
+      HD, { container: 'mkv' }, 137, 251, '1080p',
+      ['Chose 1080p avc1 with separate audio (itag 137).'],
+    ],
+    [
+      'a lower height limit',
+      HD, { maxHeight: 720 }, 136, 140, '720p',
+      ['Chose 720p avc1 with separate audio (itag 136).'],
+    ],
+    [
+      'a combined format over a mux at the same height',
+      HD, { maxHeight: 360 }, 18, null, '360p',
+      ['Chose 360p avc1 (itag 18).'],
+    ],
+    [
+      'the preferred codec, paired with audio in its container',
+      HD, { codecs: ['vp9'] }, 248, 251, '1080p',
+      ['Chose 1080p vp9 with separate audio (itag 248).'],
+    ],
+    [
+      'the first available of several preferred codecs',
+      HD, { codecs: ['av1', 'vp9'] }, 399, 140, '1080p',
+      ['Chose 1080p av1 with separate audio (itag 399).'],
+    ],
+    [
+      'an MP4 format under the size limit',
+      HD, { maxFileSize: 60e6 }, 399, 140, '1080p',
+      ['Chose 1080p av1 with separate audio (itag 399).'],
+    ],
+    [
+      'SDR at a higher frame rate over 30 fps',
+      UHD_HDR, {}, 299, 140, '1080p',
+      ['Chose 1080p60 avc1 with separate audio (itag 299).'],
+    ],
+    [
+      'SDR at 2160p unless HDR is allowed',
+      UHD_HDR, { maxHeight: 2160 }, 401, 140, '2160p',
+      ['Chose 2160p60 av1 with separate audio (itag 401).'],
+    ],
+    [
+      'HDR when allowed',
+      UHD_HDR, { maxHeight: 2160, allowHdr: true }, 701, 140, '2160p',
+      ['Chose 2160p60 HDR av1 with separate audio (itag 701).'],
+    ],
+    [
+      'the frame rate limit over height',
+      UHD_HDR, { maxHeight: 2160, maxFps: 30 }, 137, 140, '1080p',
+      ['Chose 1080p avc1 with separate audio (itag 137).'],
+    ],
+    [
+      'a codec that tops out below the height limit',
+      UHD_HDR, { maxHeight: 2160, codecs: ['avc1'] }, 299, 140, '1080p',
+      ['Chose 1080p60 avc1 with separate audio (itag 299).'],
+    ],
+  ])('picks %s', (_, formats, overrides, video, audio, deliveredQuality, explanation) => {
+    expect(planSummary(formats, overrides as Partial<FormatPreferences>)).toEqual({ video, audio, deliveredQuality, explanation })
+  })
+
+  describe('falls back and says why', () => {
+    it.each([
+      [
+        'to the smallest height when everything is taller than the limit',
+        HD, { maxHeight: 100 }, 160, 140, '144p',
+        ['Chose 144p avc1 with separate audio (itag 160).', 'Nothing at or below 100p, so the smallest available (144p) was used.'],
+      ],
+      [
+        'to another codec when the preferred one is missing',
+        LEGACY, { codecs: ['av1'] }, 18, null, '240p',
+        ['Chose 240p avc1 (itag 18).', 'No av1 format is available, so another codec was used.'],
+      ],
+      [
+        'to a higher frame rate when nothing is at or below the limit',
+        HD, { maxFps: 24 }, 137, 140, '1080p',
+        ['Chose 1080p avc1 with separate audio (itag 137).', 'Nothing at or below 24 fps, so a higher frame rate was used.'],
+      ],
+      [
+        'to HDR when nothing else is offered',
+        UHD_HDR.filter((format) => !format.hasVideo || isHdr(format)), { maxHeight: 2160 }, 701, 140, '2160p',
+        ['Chose 2160p60 HDR av1 with separate audio (itag 701).', 'Only HDR formats are available, so HDR was used.'],
+      ],
+      [
+        'to the only audio there is, whatever its container',
+        LEGACY, { maxHeight: 144 }, 160, 251, '144p',
+        ['Chose 144p avc1 with separate audio (itag 160).'],
+      ],
+    ])('%s', (_, formats, overrides, video, audio, deliveredQuality, explanation) => {
+      expect(planSummary(formats, overrides as Partial<FormatPreferences>)).toEqual({ video, audio, deliveredQuality, explanation })
+    })
+  })
+
+  it('fails with the size limit as the reason when nothing fits', () => {
+    expect(() => planVideoDownload(HD, preferences({ maxFileSize: 1e6 }))).toThrow(
+      expect.objectContaining({ code: 'FORMAT_UNAVAILABLE', message: 'Every format is larger than 1 MB.' })
+    )
+  })
+
+  it('returns null when there is no video at all', () => {
+    expect(planVideoDownload(HD.filter((format) => !format.hasVideo), preferences())).toBeNull()
+  })
+
+  it('skips video-only formats when there is no audio to pair them with', () => {
+    expect(planSummary(HD.filter((format) => format.hasVideo))).toMatchObject({ video: 18, audio: null })
+  })
+
+  it('skips HLS manifests', () => {
+    const manifests = HD.map((format) => ({ ...format, isHLS: format.itag !== 18 }))
+    expect(planSummary(manifests)).toMatchObject({ video: 18, audio: null })
+  })
+})
+
+describe('planAudioDownload', () => {
+  it.each([
+    ['AAC passed through as M4A', HD, 'm4a', 140, false, '128kbps'],
+    ['Opus passed through as Opus', HD, 'opus', 251, false, '160kbps'],
+    ['the best audio transcoded to MP3', HD, 'mp3', 251, true, '160kbps'],
+    ['Opus transcoded when there is no AAC', LEGACY, 'm4a', 251, true, '160kbps'],
+  ] as const)('%s', (_, formats, output, itag, transcode, deliveredQuality) => {
+    const plan = planAudioDownload(formats, output)
+    expect(plan && { itag: plan.audio.itag, output: plan.output, transcode: plan.transcode, deliveredQuality: plan.deliveredQuality })
+      .toEqual({ itag, output, transcode, deliveredQuality })
+  })
+
+  it('ignores formats that also carry video', () => {
+    expect(planAudioDownload(HD.filter((format) => format.hasVideo), 'm4a')).toBeNull()
+  })
+})
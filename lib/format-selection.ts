@@ -0,0 +1,183 @@
+// Pick the video (and audio) formats that best match a user's preferences,
+// returning every workable choice ranked best first and a short explanation
+// of why the top one won.
+
+import ytdl from '@distube/ytdl-core'
+import type { MuxContainer } from '@/lib/ffmpeg'
+
+export type VideoCodec = 'avc1' | 'vp9' | 'av1'
+
+export const VIDEO_CODECS: VideoCodec[] = ['avc1', 'vp9', 'av1']
+
+export interface FormatPreferences {
+  maxHeight: number
+  container: MuxContainer
+  codecs?: VideoCodec[] // most preferred first; any codec is acceptable when empty
+  maxFps?: number
+  allowHdr?: boolean // HDR looks washed out on players that do not support it, so it is opt-in
+  maxFileSize?: number // bytes, video and audio together
+}
+
+export interface FormatChoice {
+  video: ytdl.videoFormat
+  audio: ytdl.videoFormat | null // null when the video format already carries audio
+  height: number
+  fps: number
+  codec: VideoCodec | null
+  hdr: boolean
+  estimatedSize: number | null
+}
+
+export interface FormatSelection {
+  choices: FormatChoice[] // best first; empty when nothing fits
+  explanation: string[]
+}
+
+export function videoCodec(format: ytdl.videoFormat): VideoCodec | null {
+  const codecs = (format.videoCodec || format.codecs || '').toLowerCase()
+  if (codecs.startsWith('avc1')) return 'avc1'
+  if (codecs.startsWith('vp9') || codecs.startsWith('vp09')) return 'vp9'
+  if (codecs.startsWith('av01')) return 'av1'
+  return null
+}
+
+export function isHdr(format: ytdl.videoFormat): boolean {
+  const transfer = format.colorInfo?.transferCharacteristics || ''
+  return /HDR/.test(format.qualityLabel || '') || /SMPTEST2084|ARIB_STD_B67/.test(transfer)
+}
+
+// contentLength when YouTube sends it, otherwise estimated from the bitrate
+export function estimateFormatSize(format: ytdl.videoFormat): number | null {
+  const contentLength = parseInt(format.contentLength, 10)
+  if (contentLength > 0) return contentLength
+
+  const bitrate = format.averageBitrate || format.bitrate
+  const durationMs = parseInt(format.approxDurationMs || '', 10)
+  return bitrate && durationMs > 0 ? Math.round((bitrate / 8) * (durationMs / 1000)) : null
+}
+
+function isDirect(format: ytdl.videoFormat): boolean {
+  return !format.isHLS && !format.isDashMPD
+}
+
+// The highest-bitrate audio, preferring one in the same container as the
+// video so muxing into MP4 stays a plain copy
+function pairAudio(video: ytdl.videoFormat, audioFormats: ytdl.videoFormat[], container: MuxContainer) {
+  return [...audioFormats].sort((a, b) => {
+    const aMatches = container === 'mkv' || a.container === video.container ? 1 : 0
+    const bMatches = container === 'mkv' || b.container === video.container ? 1 : 0
+    return bMatches - aMatches || (b.audioBitrate || 0) - (a.audioBitrate || 0)
+  })[0]
+}
+
+function toChoice(video: ytdl.videoFormat, audio: ytdl.videoFormat | null): FormatChoice {
+  const videoSize = estimateFormatSize(video)
+  const audioSize = audio ? estimateFormatSize(audio) : 0
+  return {
+    video,
+    audio,
+    height: video.height || 0,
+    fps: video.fps || 0,
+    codec: videoCodec(video),
+    hdr: isHdr(video),
+    estimatedSize: videoSize !== null && audioSize !== null ? videoSize + audioSize : null,
+  }
+}
+
+function describe(choice: FormatChoice): string {
+  const codec = choice.codec || choice.video.container
+  return `${choice.height}p${choice.fps > 30 ? choice.fps : ''}${choice.hdr ? ' HDR' : ''} ${codec}`
+}
+
+// Drop candidates failing a preference, unless that would drop all of them;
+// preferences other than file size are relaxed rather than failing the download
+function narrow(
+  candidates: FormatChoice[],
+  keep: (choice: FormatChoice) => boolean,
+  relaxedNote: string,
+  explanation: string[]
+): FormatChoice[] {
+  const kept = candidates.filter(keep)
+  if (kept.length > 0) return kept
+  if (candidates.length > 0) explanation.push(relaxedNote)
+  return candidates
+}
+
+export function selectFormats(formats: ytdl.videoFormat[], preferences: FormatPreferences): FormatSelection {
+  const { maxHeight, container, codecs = [], maxFps, allowHdr = false, maxFileSize } = preferences
+  const explanation: string[] = []
+
+  const videoOnly = ytdl.filterFormats(formats, 'videoonly').filter(isDirect)
+  const audioOnly = ytdl.filterFormats(formats, 'audioonly').filter(isDirect)
+  const combined = ytdl.filterFormats(formats, 'videoandaudio').filter(isDirect)
+
+  let candidates = [
+    ...combined.map((video) => toChoice(video, null)),
+    // Video-only formats are no use without an audio format to pair them with
+    ...(audioOnly.length > 0 ? videoOnly.map((video) => toChoice(video, pairAudio(video, audioOnly, container))) : []),
+  ]
+  if (candidates.length === 0) {
+    return { choices: [], explanation: ['No downloadable video formats.'] }
+  }
+
+  if (codecs.length > 0) {
+    candidates = narrow(
+      candidates,
+      (c) => c.codec !== null && codecs.includes(c.codec),
+      `No ${codecs.join('/')} format is available, so another codec was used.`,
+      explanation
+    )
+  }
+  if (!allowHdr) {
+    candidates = narrow(candidates, (c) => !c.hdr, 'Only HDR formats are available, so HDR was used.', explanation)
+  }
+  if (maxFps) {
+    candidates = narrow(
+      candidates,
+      (c) => c.fps <= maxFps,
+      `Nothing at or below ${maxFps} fps, so a higher frame rate was used.`,
+      explanation
+    )
+  }
+
+  // Nothing at or below the height limit: fall back to the smallest height offered
+  const minHeight = Math.min(...candidates.map((c) => c.height))
+  candidates = narrow(
+    candidates,
+    (c) => c.height <= maxHeight,
+    `Nothing at or below ${maxHeight}p, so the smallest available (${minHeight}p) was used.`,
+    explanation
+  )
+  if (candidates.every((c) => c.height > maxHeight)) {
+    candidates = candidates.filter((c) => c.height === minHeight)
+  }
+
+  if (maxFileSize) {
+    // Unknown sizes are allowed through; only known oversize formats are dropped
+    const fits = candidates.filter((c) => c.estimatedSize === null || c.estimatedSize <= maxFileSize)
+    if (fits.length === 0) {
+      return { choices: [], explanation: [...explanation, `Every format is larger than ${Math.round(maxFileSize / 1e6)} MB.`] }
+    }
+    candidates = fits
+  }
+
+  const codecRank = (c: FormatChoice) => {
+    const index = c.codec ? codecs.indexOf(c.codec) : -1
+    return index === -1 ? codecs.length : index
+  }
+  const containerMatches = (c: FormatChoice) => (container === 'mkv' || c.video.container === 'mp4' ? 1 : 0)
+
+  const choices = [...candidates].sort((a, b) =>
+    b.height - a.height
+    // At equal height a combined format avoids the mux step
+    || (a.audio ? 1 : 0) - (b.audio ? 1 : 0)
+    || codecRank(a) - codecRank(b)
+    || containerMatches(b) - containerMatches(a)
+    || b.fps - a.fps
+    || (b.video.bitrate || 0) - (a.video.bitrate || 0)
+  )
+
+  const best = choices[0]
+  explanation.unshift(`Chose ${describe(best)}${best.audio ? ' with separate audio' : ''} (itag ${best.video.itag}).`)
+  return { choices, explanation }
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import { DownloadHistoryEntry, historyToCsv } from '@/lib/history'
+
+function entry(overrides: Partial<DownloadHistoryEntry> = {}): DownloadHistoryEntry {
+  return {
+    id: 'a1',
+    videoId: 'dQw4w9WgXcQ',
+    url: 'https://youtu.be/dQw4w9WgXcQ',
+    title: 'Title',
+    thumbnail: null,
+    mode: 'video',
+    deliveredQuality: '1080p',
+    format: 'mp4',
+    size: 1024,
+    downloadedAt: '2026-10-19T08:00:00.000Z',
+    ...overrides,
+  }
+}
+
+// The title column of the only row
+function csvTitle(title: string): string {
+  const row = historyToCsv([entry({ title })]).split('\r\n')[1]
+  return row.split('","')[1]
+}
+
+describe('historyToCsv', () => {
+  it('writes a header and one quoted row per entry', () => {
+    expect(historyToCsv([entry()])).toBe(
+      'downloadedAt,title,url,videoId,mode,deliveredQuality,format,size,thumbnail\r\n' +
+      '"2026-10-19T08:00:00.000Z","Title","https://youtu.be/dQw4w9WgXcQ","dQw4w9WgXcQ","video","1080p","mp4","1024",""\r\n'
+    )
+  })
+
+  it('doubles quotes and keeps commas and line breaks inside the field', () => {
+    expect(csvTitle('Say "hi", then\nleave')).toBe('Say ""hi"", then\nleave')
+  })
+
+  it.each([
+    ['=HYPERLINK("https://evil.example")', '\'=HYPERLINK(""https://evil.example"")'],
+    ['+1+2', '\'+1+2'],
+    ['-2+3', '\'-2+3'],
+    ['@SUM(A1:A2)', '\'@SUM(A1:A2)'],
+    ['\t=1+1', '\'\t=1+1'],
+    ['\r=1+1', '\'\r=1+1'],
+  ])('keeps a title starting like a formula as text: %j', (title, expected) => {
+    expect(csvTitle(title)).toBe(expected)
+  })
+
+  it('leaves titles with those characters further in alone', () => {
+    expect(csvTitle('Q&A - 1+1=2 @home')).toBe('Q&A - 1+1=2 @home')
+  })
+})
@@ -0,0 +1,84 @@
+// Download history: kept in the browser's localStorage for the page, and
+// optionally on the server per API key. Shared by both, so no Node imports.
+
+export interface DownloadHistoryEntry {
+  id: string
+  videoId: string
+  url: string // the URL as pasted, so a re-download starts from the same link
+  title: string
+  thumbnail: string | null
+  mode: 'video' | 'audio'
+  deliveredQuality: string | null
+  format: string // file extension, e.g. 'mp4' or 'mp3'
+  size: number | null // bytes
+  downloadedAt: string // ISO 8601
+}
+
+const STORAGE_KEY = 'downloadHistory'
+export const MAX_HISTORY_ENTRIES = 200
+
+export function createHistoryEntry(fields: Omit<DownloadHistoryEntry, 'id' | 'downloadedAt'>): DownloadHistoryEntry {
+  // crypto.randomUUID is missing on pages served over plain HTTP
+  const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+  return { id, downloadedAt: new Date().toISOString(), ...fields }
+}
+
+// YouTube serves a fixed set of thumbnails for every video; 320x180 suits a list
+export function thumbnailUrl(videoId: string): string {
+  return `https://i.ytimg.com/vi/${videoId}/mqdefault.jpg`
+}
+
+// Newest first, dropping the oldest past the limit
+export function addHistoryEntry(
+  entries: DownloadHistoryEntry[],
+  entry: DownloadHistoryEntry,
+  limit = MAX_HISTORY_ENTRIES
+): DownloadHistoryEntry[] {
+  return [entry, ...entries].slice(0, limit)
+}
+
+export function loadHistory(): DownloadHistoryEntry[] {
+  try {
+    const entries = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]')
+    return Array.isArray(entries) ? entries : []
+  } catch {
+    return []
+  }
+}
+
+export function saveHistory(entries: DownloadHistoryEntry[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries))
+  } catch (error) {
+    // Storage full or disabled (private browsing); history is a convenience
+    console.warn('Could not save download history:', error)
+  }
+}
+
+export function searchHistory(entries: DownloadHistoryEntry[], query: string): DownloadHistoryEntry[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean)
+  if (terms.length === 0) return entries
+  return entries.filter((entry) => {
+    const text = `${entry.title} ${entry.videoId} ${entry.url} ${entry.deliveredQuality || ''} ${entry.format}`.toLowerCase()
+    return terms.every((term) => text.includes(term))
+  })
+}
+
+const CSV_COLUMNS: (keyof DownloadHistoryEntry)[] = [
+  'downloadedAt', 'title', 'url', 'videoId', 'mode', 'deliveredQuality', 'format', 'size', 'thumbnail',
+]
+
+// A spreadsheet runs a cell starting with one of these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+// RFC 4180: quote every field, doubling quotes inside it. Titles come from
+// uploaders, so text that would run as a formula gets a leading ' to keep it
+// text when the file is opened in a spreadsheet.
+export function historyToCsv(entries: DownloadHistoryEntry[]): string {
+  const quote = (value: unknown) => {
+    const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value ?? '')
+    return `"${text.replace(/"/g, '""')}"`
+  }
+  const rows = entries.map((entry) => CSV_COLUMNS.map((column) => quote(entry[column])).join(','))
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n'
+}
@@ -0,0 +1,49 @@
+// Parsing for single-range HTTP Range headers (RFC 9110 section 14)
+
+export interface ByteRange {
+  start: number
+  end: number // inclusive
+}
+
+// Returns the requested range clamped to the resource, null when the header
+// is absent or should be ignored (so the full body is sent), or
+// 'unsatisfiable' when the range lies outside the resource (416).
+export function parseRange(header: string | null, size: number): ByteRange | null | 'unsatisfiable' {
+  if (!header) return null
+
+  const match = header.trim().match(/^bytes=(\d*)-(\d*)$/)
+  // Multiple ranges and other units are allowed to be ignored
+  if (!match) return null
+
+  const [, startText, endText] = match
+  if (startText === '' && endText === '') return null
+
+  if (startText === '') {
+    // Suffix range: the last N bytes
+    const suffix = parseInt(endText, 10)
+    if (suffix === 0) return 'unsatisfiable'
+    return { start: Math.max(0, size - suffix), end: size - 1 }
+  }
+
+  const start = parseInt(startText, 10)
+  const lastByte = endText === '' ? Infinity : parseInt(endText, 10)
+  // A range that ends before it starts is malformed rather than unsatisfiable
+  if (lastByte < start) return null
+  if (start >= size) return 'unsatisfiable'
+
+  return { start, end: Math.min(lastByte, size - 1) }
+}
+
+// Whether a request with this Range header reads the resource from its first
+// byte: no range, one that is ignored, or one starting at 0. Later ranges
+// continue a download that has already started.
+export function readsFromStart(header: string | null): boolean {
+  const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/)
+  if (!match) return true
+
+  const [, startText, endText] = match
+  if (startText === '') return endText === ''
+  const start = parseInt(startText, 10)
+  // Malformed ranges are ignored by parseRange, so the whole body is sent
+  return start === 0 || (endText !== '' && parseInt(endText, 10) < start)
+}
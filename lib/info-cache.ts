@@ -0,0 +1,99 @@
+import ytdl from '@distube/ytdl-core'
+
+// Video info is reused across requests until shortly before YouTube's signed
+// format URLs expire; a stale URL is what answers 410 Gone. Entries hold the
+// pending promise, so concurrent requests for one video share a single fetch.
+
+export interface InfoCacheOptions {
+  maxEntries: number
+  ttl: number // ms
+  // Streams opened from a cached info must finish before its URLs expire
+  expiryMargin: number // ms
+}
+
+export interface InfoCacheResult {
+  videoInfo: ytdl.videoInfo
+  cacheHit: boolean
+}
+
+export interface InfoCache {
+  get(videoId: string, load: (videoId: string) => Promise<ytdl.videoInfo>): Promise<InfoCacheResult>
+  delete(videoId: string): void
+}
+
+interface CacheEntry {
+  info: Promise<ytdl.videoInfo>
+  expiresAt: number
+}
+
+// Earliest `expire` (unix seconds) among the format URLs, in ms
+export function urlExpiry(videoInfo: ytdl.videoInfo): number | null {
+  const expiries = videoInfo.formats
+    .map((format) => {
+      try {
+        return parseInt(new URL(format.url).searchParams.get('expire') || '', 10) * 1000
+      } catch {
+        return NaN
+      }
+    })
+    .filter((expiry) => expiry > 0)
+  return expiries.length > 0 ? Math.min(...expiries) : null
+}
+
+// Least recently used entries are dropped first; a Map keeps insertion order,
+// so re-inserting on every hit keeps the oldest at the front
+export function createInfoCache({ maxEntries, ttl, expiryMargin }: InfoCacheOptions): InfoCache {
+  const entries = new Map<string, CacheEntry>()
+
+  return {
+    async get(videoId, load) {
+      const now = Date.now()
+      const existing = entries.get(videoId)
+      if (existing && existing.expiresAt > now) {
+        entries.delete(videoId)
+        entries.set(videoId, existing)
+        return { videoInfo: await existing.info, cacheHit: true }
+      }
+
+      const entry: CacheEntry = { info: load(videoId), expiresAt: now + ttl }
+      entries.delete(videoId)
+      entries.set(videoId, entry)
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as string)
+      }
+
+      try {
+        const videoInfo = await entry.info
+        const expiry = urlExpiry(videoInfo)
+        if (expiry !== null) {
+          entry.expiresAt = Math.min(entry.expiresAt, expiry - expiryMargin)
+        }
+        return { videoInfo, cacheHit: false }
+      } catch (error) {
+        // Failures are not cached; the next request tries again
+        if (entries.get(videoId) === entry) entries.delete(videoId)
+        throw error
+      }
+    },
+
+    delete(videoId) {
+      entries.delete(videoId)
+    },
+  }
+}
+
+const INFO_CACHE_SIZE = process.env.INFO_CACHE_SIZE ? parseInt(process.env.INFO_CACHE_SIZE, 10) : 500
+const INFO_CACHE_TTL = process.env.INFO_CACHE_TTL
+  ? parseInt(process.env.INFO_CACHE_TTL, 10) * 1000
+  : 30 * 60 * 1000
+
+// Kept on globalThis so every route handler (and dev-mode reloads) share one cache
+const registry = globalThis as unknown as { videoInfoCache?: InfoCache }
+registry.videoInfoCache ??= createInfoCache({
+  maxEntries: INFO_CACHE_SIZE,
+  ttl: INFO_CACHE_TTL,
+  // Background jobs can run for a while after fetching the info
+  expiryMargin: 60 * 60 * 1000,
+})
+
+export const infoCache: InfoCache = registry.videoInfoCache
@@ -0,0 +1,111 @@
+// Minimal IPv4/IPv6 parsing and CIDR matching for client identification
+
+export type ParsedIp =
+  | { version: 4; bytes: number[] } // 4 octets
+  | { version: 6; bytes: number[] } // 16 octets
+
+function parseIPv4(address: string): number[] | null {
+  const parts = address.split('.')
+  if (parts.length !== 4) return null
+  const bytes = parts.map((part) => (/^\d{1,3}$/.test(part) ? parseInt(part, 10) : NaN))
+  return bytes.every((byte) => byte >= 0 && byte <= 255) ? bytes : null
+}
+
+function parseIPv6(address: string): number[] | null {
+  // Zone IDs (fe80::1%eth0) only matter on the local link
+  let text = address.split('%')[0]
+
+  // An embedded IPv4 tail (::ffff:1.2.3.4) becomes two hextets
+  const lastColon = text.lastIndexOf(':')
+  const tail = text.slice(lastColon + 1)
+  if (tail.includes('.')) {
+    const ipv4 = parseIPv4(tail)
+    if (!ipv4) return null
+    text = `${text.slice(0, lastColon + 1)}${((ipv4[0] << 8) | ipv4[1]).toString(16)}:${((ipv4[2] << 8) | ipv4[3]).toString(16)}`
+  }
+
+  const halves = text.split('::')
+  if (halves.length > 2) return null
+  const head = halves[0] ? halves[0].split(':') : []
+  const rest = halves.length === 2 && halves[1] ? halves[1].split(':') : []
+  const missing = 8 - head.length - rest.length
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null
+
+  const hextets = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...rest]
+  if (!hextets.every((hextet) => /^[0-9a-f]{1,4}$/i.test(hextet))) return null
+
+  return hextets.flatMap((hextet) => {
+    const value = parseInt(hextet, 16)
+    return [value >> 8, value & 0xff]
+  })
+}
+
+export function parseIp(address: string): ParsedIp | null {
+  const trimmed = address.trim().replace(/^\[|\]$/g, '')
+  const ipv4 = parseIPv4(trimmed)
+  if (ipv4) return { version: 4, bytes: ipv4 }
+
+  const ipv6 = parseIPv6(trimmed)
+  if (!ipv6) return null
+
+  // IPv4-mapped IPv6 (::ffff:a.b.c.d) is really an IPv4 client
+  if (ipv6.slice(0, 10).every((byte) => byte === 0) && ipv6[10] === 0xff && ipv6[11] === 0xff) {
+    return { version: 4, bytes: ipv6.slice(12) }
+  }
+  return { version: 6, bytes: ipv6 }
+}
+
+// Strip the port from "1.2.3.4:5678" or "[2001:db8::1]:5678" style entries
+export function stripPort(address: string): string {
+  const bracketed = address.match(/^\[([^\]]+)\](?::\d+)?$/)
+  if (bracketed) return bracketed[1]
+  const ipv4WithPort = address.match(/^(\d{1,3}(?:\.\d{1,3}){3}):\d+$/)
+  return ipv4WithPort ? ipv4WithPort[1] : address
+}
+
+export function formatIp(ip: ParsedIp): string {
+  if (ip.version === 4) return ip.bytes.join('.')
+
+  const hextets: string[] = []
+  for (let i = 0; i < 16; i += 2) {
+    hextets.push(((ip.bytes[i] << 8) | ip.bytes[i + 1]).toString(16))
+  }
+  return hextets.join(':')
+}
+
+export interface Cidr {
+  version: 4 | 6
+  bytes: number[]
+  prefix: number
+}
+
+export function parseCidr(text: string): Cidr | null {
+  const [address, prefixText] = text.trim().split('/')
+  const ip = parseIp(address)
+  if (!ip) return null
+
+  const maxPrefix = ip.bytes.length * 8
+  const prefix = prefixText === undefined ? maxPrefix : parseInt(prefixText, 10)
+  if (!(prefix >= 0 && prefix <= maxPrefix)) return null
+  return { version: ip.version, bytes: ip.bytes, prefix }
+}
+
+export function cidrContains(cidr: Cidr, ip: ParsedIp): boolean {
+  if (cidr.version !== ip.version) return false
+
+  for (let bit = 0; bit < cidr.prefix; bit += 8) {
+    const bits = Math.min(8, cidr.prefix - bit)
+    const mask = (0xff << (8 - bits)) & 0xff
+    const index = bit / 8
+    if ((cidr.bytes[index] & mask) !== (ip.bytes[index] & mask)) return false
+  }
+  return true
+}
+
+// One IPv6 customer usually gets a whole /64, so rotating through addresses
+// inside it should not buy a fresh rate-limit bucket
+export function clientNetwork(ip: ParsedIp): string {
+  if (ip.version === 4) return formatIp(ip)
+  const prefix = formatIp(ip).split(':').slice(0, 4).join(':')
+  return `${prefix}::/64`
+}
@@ -0,0 +1,54 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { Readable, Writable } from 'stream'
+
+// Where finished job files live. Anything implementing this interface (a
+// bucket, a shared volume) can replace the local filesystem backend.
+export interface JobStorage {
+  createWriteStream(key: string): Writable
+  createReadStream(key: string, range?: { start: number; end: number }): Readable
+  size(key: string): Promise<number | null>
+  remove(key: string): Promise<void>
+}
+
+// Keys are generated job IDs, but guard against path traversal anyway
+function safeKey(key: string): string {
+  if (!/^[\w-]+$/.test(key)) {
+    throw new Error(`Invalid storage key: ${key}`)
+  }
+  return key
+}
+
+export function createLocalStorage(directory: string): JobStorage {
+  const filePath = (key: string) => path.join(directory, safeKey(key))
+
+  return {
+    createWriteStream(key) {
+      fs.mkdirSync(directory, { recursive: true })
+      return fs.createWriteStream(filePath(key))
+    },
+
+    createReadStream(key, range) {
+      return fs.createReadStream(filePath(key), range)
+    },
+
+    async size(key) {
+      try {
+        const stats = await fs.promises.stat(filePath(key))
+        return stats.size
+      } catch (error: any) {
+        if (error.code === 'ENOENT') return null
+        throw error
+      }
+    },
+
+    async remove(key) {
+      await fs.promises.rm(filePath(key), { force: true })
+    },
+  }
+}
+
+const JOB_STORAGE_DIR = process.env.JOB_STORAGE_DIR || path.join(os.tmpdir(), 'youtube-downloader-jobs')
+
+export const jobStorage: JobStorage = createLocalStorage(JOB_STORAGE_DIR)
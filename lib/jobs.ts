@@ -0,0 +1,244 @@
+// In-process background download jobs. Job state lives in memory and files
+// go to jobStorage, so this needs a long-running server (e.g. `next start`
+// or a container); serverless functions may be frozen once they respond.
+
+import crypto from 'crypto'
+import { pipeline } from 'stream/promises'
+import { Readable, Transform } from 'stream'
+import { withVideoInfo } from '@/lib/youtube'
+import { openDownload, prepareDownload, downloadFilename, firstChunk, DownloadOptions } from '@/lib/download'
+import { jobStorage } from '@/lib/job-storage'
+import { zipEntries, ZipEntry } from '@/lib/zip'
+import { sanitizeFilename } from '@/lib/filename'
+import { AppError, ErrorCode, classifyError } from '@/lib/errors'
+
+export type JobState = 'queued' | 'running' | 'completed' | 'failed'
+
+// Several videos downloaded into one ZIP
+export interface BatchSelection {
+  videoIds: string[]
+  title: string | null
+}
+
+export interface Job {
+  id: string
+  videoId: string | null // null for a batch
+  batch: BatchSelection | null
+  options: DownloadOptions
+  state: JobState
+  title: string | null
+  filename: string | null
+  contentType: string | null
+  deliveredQuality: string | null
+  bytesDownloaded: number
+  totalBytes: number | null // estimated from format sizes; null when unknown
+  error: string | null
+  errorCode: ErrorCode | null
+  createdAt: number
+  startedAt: number | null
+  finishedAt: number | null
+}
+
+export interface JobStatus {
+  id: string
+  state: JobState
+  title: string | null
+  deliveredQuality: string | null
+  bytesDownloaded: number
+  totalBytes: number | null
+  bytesPerSecond: number | null
+  etaSeconds: number | null
+  error: string | null
+  errorCode: ErrorCode | null
+  fileUrl: string | null
+}
+
+// Kept on globalThis so every route handler (and dev-mode reloads) share one registry
+const registry = globalThis as unknown as {
+  downloadJobs?: { jobs: Map<string, Job>; queue: string[]; running: number }
+}
+registry.downloadJobs ??= { jobs: new Map(), queue: [], running: 0 }
+const state = registry.downloadJobs
+const { jobs, queue } = state
+
+const MAX_CONCURRENT_JOBS = process.env.MAX_CONCURRENT_JOBS
+  ? parseInt(process.env.MAX_CONCURRENT_JOBS, 10)
+  : 2
+// Finished jobs and their files are removed after an hour
+const JOB_TTL = 60 * 60 * 1000
+
+export function createJob(videoId: string, options: DownloadOptions): Job {
+  return queueJob(videoId, null, options)
+}
+
+export function createBatchJob(batch: BatchSelection, options: DownloadOptions): Job {
+  return queueJob(null, batch, options)
+}
+
+function queueJob(videoId: string | null, batch: BatchSelection | null, options: DownloadOptions): Job {
+  const job: Job = {
+    id: crypto.randomUUID(),
+    videoId,
+    batch,
+    options,
+    state: 'queued',
+    title: null,
+    filename: null,
+    contentType: null,
+    deliveredQuality: null,
+    bytesDownloaded: 0,
+    totalBytes: null,
+    error: null,
+    errorCode: null,
+    createdAt: Date.now(),
+    startedAt: null,
+    finishedAt: null,
+  }
+
+  jobs.set(job.id, job)
+  queue.push(job.id)
+  processQueue()
+  return job
+}
+
+export function getJob(id: string): Job | undefined {
+  return jobs.get(id)
+}
+
+export function jobStatus(job: Job): JobStatus {
+  let bytesPerSecond: number | null = null
+  let etaSeconds: number | null = null
+
+  if (job.state === 'running' && job.startedAt) {
+    const elapsedSeconds = (Date.now() - job.startedAt) / 1000
+    if (elapsedSeconds > 0 && job.bytesDownloaded > 0) {
+      bytesPerSecond = Math.round(job.bytesDownloaded / elapsedSeconds)
+      if (job.totalBytes) {
+        etaSeconds = Math.max(0, Math.round((job.totalBytes - job.bytesDownloaded) / bytesPerSecond))
+      }
+    }
+  }
+
+  return {
+    id: job.id,
+    state: job.state,
+    title: job.title,
+    deliveredQuality: job.deliveredQuality,
+    bytesDownloaded: job.bytesDownloaded,
+    totalBytes: job.totalBytes,
+    bytesPerSecond,
+    etaSeconds,
+    error: job.error,
+    errorCode: job.errorCode,
+    fileUrl: job.state === 'completed' ? `/api/jobs/${job.id}/file` : null,
+  }
+}
+
+function processQueue() {
+  while (state.running < MAX_CONCURRENT_JOBS && queue.length > 0) {
+    const job = jobs.get(queue.shift() as string)
+    if (!job) continue
+
+    state.running++
+    runJob(job).finally(() => {
+      state.running--
+      processQueue()
+    })
+  }
+}
+
+async function runJob(job: Job) {
+  job.state = 'running'
+  job.startedAt = Date.now()
+
+  try {
+    if (job.batch) {
+      await runBatch(job, job.batch)
+    } else {
+      await runDownload(job, job.videoId as string)
+    }
+
+    job.state = 'completed'
+    // The estimate was only approximate; report the real size once known
+    job.totalBytes = job.bytesDownloaded
+  } catch (error: any) {
+    console.error(`Job ${job.id} failed:`, error)
+    const appError = classifyError(error)
+    job.state = 'failed'
+    job.error = appError.message
+    job.errorCode = appError.code
+    await jobStorage.remove(job.id).catch(() => {})
+  } finally {
+    job.finishedAt = Date.now()
+  }
+}
+
+async function runDownload(job: Job, videoId: string) {
+  // Nothing has been sent yet, so a job whose cached info went stale
+  // simply starts over with fresh info
+  await withVideoInfo(videoId, async (videoInfo) => {
+    job.bytesDownloaded = 0
+    const download = await openDownload(videoInfo, job.options)
+    if (!download) {
+      throw new AppError('FORMAT_UNAVAILABLE', { message: 'No suitable format available for this video.' })
+    }
+
+    job.title = videoInfo.videoDetails.title
+    job.filename = downloadFilename(videoInfo, download.extension, job.options.filename, download.deliveredQuality)
+    job.contentType = download.contentType
+    job.deliveredQuality = download.deliveredQuality
+    job.totalBytes = download.estimatedSize
+
+    await store(job, download.stream)
+  })
+}
+
+// The videos one after another in a ZIP. A video that fails is listed in
+// errors.txt instead of failing the job.
+async function runBatch(job: Job, { videoIds, title }: BatchSelection) {
+  job.title = title
+  job.filename = sanitizeFilename(`${title || ''}.zip`, 'zip', 'youtube-batch')
+  job.contentType = 'application/zip'
+
+  const pad = String(videoIds.length).length
+  const entries = videoIds.map((videoId, index): ZipEntry => ({
+    label: videoId,
+    open: () => withVideoInfo(videoId, async (videoInfo) => {
+      const download = await prepareDownload(videoInfo, job.options)
+      if (!download) {
+        throw new AppError('FORMAT_UNAVAILABLE', { message: 'No suitable format available for this video.' })
+      }
+      const filename = downloadFilename(videoInfo, download.extension, job.options.filename, download.deliveredQuality)
+      // Stale URLs in a cached info show up on the first bytes, in time to retry
+      const stream = await firstChunk(download.open())
+      return { name: `${String(index + 1).padStart(pad, '0')} - ${filename}`, stream }
+    }),
+  }))
+
+  await store(job, zipEntries(entries))
+}
+
+// Write the job's file, counting bytes for its progress
+async function store(job: Job, stream: Readable) {
+  const counter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      job.bytesDownloaded += chunk.length
+      callback(null, chunk)
+    },
+  })
+
+  await pipeline(stream, counter, jobStorage.createWriteStream(job.id))
+}
+
+// Clean up expired jobs periodically
+if (typeof setInterval !== 'undefined') {
+  setInterval(() => {
+    const now = Date.now()
+    jobs.forEach((job, id) => {
+      if (job.finishedAt && now - job.finishedAt > JOB_TTL) {
+        jobs.delete(id)
+        jobStorage.remove(id).catch(() => {})
+      }
+    })
+  }, JOB_TTL / 4)
+}
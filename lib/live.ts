@@ -0,0 +1,90 @@
+import ytdl from '@distube/ytdl-core'
+import { AppError } from '@/lib/errors'
+import { requestOptions } from '@/lib/extractor'
+
+// Live streams and premieres. A stream that is live right now has no file to
+// download, only HLS playlists that grow as it goes, so it is recorded with
+// ffmpeg instead. One that has not started yet has no formats at all. Once a
+// stream ends YouTube turns it into an ordinary video, which downloads like
+// any other.
+
+export interface LiveSummary {
+  isLiveNow: boolean // false once the stream has ended
+  startTime: string | null // ISO 8601
+  endTime: string | null
+}
+
+const WATCH_PAGE_TIMEOUT_MS = 10000
+
+// Set for streams, live or ended; null for ordinary uploads
+export function liveSummary(videoInfo: ytdl.videoInfo): LiveSummary | null {
+  const details = videoInfo.videoDetails
+  const broadcast = details.liveBroadcastDetails
+  if (!details.isLiveContent && !broadcast) return null
+
+  return {
+    isLiveNow: isLiveNow(videoInfo),
+    startTime: broadcast?.startTimestamp || null,
+    endTime: broadcast?.endTimestamp || null,
+  }
+}
+
+export function isLiveNow(videoInfo: ytdl.videoInfo): boolean {
+  const details = videoInfo.videoDetails
+  return !!(details.liveBroadcastDetails?.isLiveNow || details.isLive)
+}
+
+// HLS variants only carry a quality label, not a height
+export function variantHeight(format: ytdl.videoFormat): number {
+  return format.height || parseInt(format.qualityLabel || '', 10) || 0
+}
+
+// The HLS variant playlists of a live stream, each with video and audio
+export function liveVariants(formats: ytdl.videoFormat[]): ytdl.videoFormat[] {
+  return formats.filter((format) => format.isHLS && format.hasVideo)
+}
+
+// The tallest variant no taller than maxHeight, or the shortest when every
+// variant is taller
+export function pickVideoVariant(variants: ytdl.videoFormat[], maxHeight: number): ytdl.videoFormat | null {
+  const sorted = [...variants].sort((a, b) => variantHeight(b) - variantHeight(a))
+  return sorted.find((format) => variantHeight(format) <= maxHeight) || sorted[sorted.length - 1] || null
+}
+
+// The variant with the best audio; the smallest video wins a tie, since it
+// is only thrown away
+export function pickAudioVariant(variants: ytdl.videoFormat[]): ytdl.videoFormat | null {
+  const sorted = [...variants].sort((a, b) =>
+    (b.audioBitrate || 0) - (a.audioBitrate || 0) || variantHeight(a) - variantHeight(b)
+  )
+  return sorted[0] || null
+}
+
+// When an upcoming stream or premiere is due to start, in epoch ms. Neither
+// extractor returns info for one, so this reads the watch page.
+async function scheduledStartTime(videoId: string): Promise<number | null> {
+  const response = await fetch(`https://www.youtube.com/watch?v=${videoId}&hl=en`, {
+    headers: {
+      'User-Agent': requestOptions.requestOptions.headers['User-Agent'],
+      'Accept-Language': requestOptions.requestOptions.headers['Accept-Language'],
+    },
+    signal: AbortSignal.timeout(WATCH_PAGE_TIMEOUT_MS),
+  })
+  if (!response.ok) return null
+  const match = /"scheduledStartTime":"(\d+)"/.exec(await response.text())
+  return match ? parseInt(match[1], 10) * 1000 : null
+}
+
+// LIVE_UPCOMING with the scheduled start as resetTime, so clients can count
+// down to it, and YouTube's own wording ("Premieres in 3 hours") as details
+export async function upcomingError(videoId: string, error: AppError): Promise<AppError> {
+  const startTime = await scheduledStartTime(videoId).catch(() => null)
+  if (startTime === null) return error
+
+  const when = new Date(startTime).toISOString().slice(0, 16).replace('T', ' ')
+  return new AppError('LIVE_UPCOMING', {
+    message: `This live stream or premiere has not started yet. It is scheduled for ${when} UTC.`,
+    details: error.details,
+    resetTime: startTime,
+  })
+}
@@ -0,0 +1,119 @@
+import ytdl from '@distube/ytdl-core'
+import type { ClipRange } from '@/lib/ffmpeg'
+
+// Tags and chapters written into downloaded files. ffmpeg maps the generic
+// keys to each container's own fields: iTunes-style atoms in MP4, ID3v2
+// frames (and CHAP frames for chapters) in MP3, Matroska tags and chapters
+// in MKV and WebM.
+
+export interface Chapter {
+  title: string
+  start: number // seconds
+  end: number
+}
+
+export interface MediaMetadata {
+  title: string
+  artist: string // the channel
+  album: string | null // the video title, for a chapter saved as its own file
+  track: string | null // e.g. '3/12', likewise
+  date: string | null // upload date, YYYY-MM-DD
+  description: string | null
+  url: string // the video's watch page
+  chapters: Chapter[]
+}
+
+// Chapters come with start times only; each runs until the next one starts
+export function videoChapters(videoInfo: ytdl.videoInfo): Chapter[] {
+  const duration = parseInt(videoInfo.videoDetails.lengthSeconds, 10) || 0
+  const chapters = [...(videoInfo.videoDetails.chapters || [])].sort((a, b) => a.start_time - b.start_time)
+  return chapters
+    .map((chapter, index) => ({
+      title: chapter.title,
+      start: chapter.start_time,
+      end: index + 1 < chapters.length ? chapters[index + 1].start_time : duration,
+    }))
+    .filter((chapter) => chapter.end > chapter.start)
+}
+
+// Chapters overlapping the clip, cut to its range and timed from its start
+function clipChapters(chapters: Chapter[], clip: ClipRange): Chapter[] {
+  return chapters
+    .filter((chapter) => chapter.end > clip.start && chapter.start < clip.end)
+    .map((chapter) => ({
+      title: chapter.title,
+      start: Math.max(chapter.start, clip.start) - clip.start,
+      end: Math.min(chapter.end, clip.end) - clip.start,
+    }))
+}
+
+// A chapter saved as its own file: its number among all the video's chapters
+export interface ChapterTrack {
+  chapter: Chapter
+  number: number // from 1
+  total: number
+}
+
+// YYYY-MM-DD; YouTube gives a full timestamp for some videos
+export function uploadDate(videoInfo: ytdl.videoInfo): string | null {
+  const details = videoInfo.videoDetails
+  return (details.uploadDate || details.publishDate || '').match(/^\d{4}-\d{2}-\d{2}/)?.[0] || null
+}
+
+// Tags for the video, or for one of its chapters as a track of an album
+// named after the video
+export function videoMetadata(
+  videoInfo: ytdl.videoInfo,
+  clip: ClipRange | null = null,
+  track: ChapterTrack | null = null
+): MediaMetadata {
+  const details = videoInfo.videoDetails
+  const chapters = videoChapters(videoInfo)
+
+  return {
+    title: track ? track.chapter.title : details.title,
+    artist: details.author?.name || details.ownerChannelName || '',
+    album: track ? details.title : null,
+    track: track ? `${track.number}/${track.total}` : null,
+    date: uploadDate(videoInfo),
+    description: details.description || null,
+    url: `https://www.youtube.com/watch?v=${details.videoId}`,
+    // A chapter file is one chapter long, so listing it as a chapter adds nothing
+    chapters: track ? [] : clip ? clipChapters(chapters, clip) : chapters,
+  }
+}
+
+// '=', ';', '#', '\' and newlines are escaped with a backslash
+function escapeValue(value: string): string {
+  return value.replace(/\r/g, '').replace(/[=;#\\\n]/g, (char) => `\\${char}`)
+}
+
+// ffmpeg's FFMETADATA text format, read as an extra input so the tags and
+// chapters can be mapped onto the output
+export function toFfmetadata(metadata: MediaMetadata): string {
+  const tags: [string, string | null][] = [
+    ['title', metadata.title],
+    ['artist', metadata.artist],
+    ['album', metadata.album],
+    ['track', metadata.track],
+    ['date', metadata.date],
+    ['description', metadata.description],
+    // Players show the comment; it is the one field every container has
+    ['comment', metadata.url],
+  ]
+
+  const lines = [';FFMETADATA1']
+  tags.forEach(([key, value]) => {
+    if (value) lines.push(`${key}=${escapeValue(value)}`)
+  })
+  metadata.chapters.forEach((chapter) => {
+    lines.push(
+      '[CHAPTER]',
+      'TIMEBASE=1/1000',
+      `START=${Math.round(chapter.start * 1000)}`,
+      `END=${Math.round(chapter.end * 1000)}`,
+      `title=${escapeValue(chapter.title)}`
+    )
+  })
+  return lines.join('\n') + '\n'
+}
@@ -0,0 +1,247 @@
+// The OpenAPI 3.1 document served at /api/openapi.json, generated from the
+// schemas in lib/api-schemas.ts so it always matches what the routes accept
+
+import { z } from 'zod/v4'
+import packageJson from '@/package.json'
+import {
+  apiKeyListSchema,
+  apiKeySchema,
+  batchRequestSchema,
+  captionTracksSchema,
+  captionsQuerySchema,
+  createApiKeyRequestSchema,
+  createdApiKeySchema,
+  downloadRequestSchema,
+  errorSchema,
+  formatQuerySchema,
+  historySchema,
+  jobStatusSchema,
+  playlistSchema,
+  thumbnailQuerySchema,
+  urlQuerySchema,
+  usageSchema,
+  videoInfoSchema,
+} from '@/lib/api-schemas'
+
+type JsonSchema = { [key: string]: any }
+
+// Requests are described as sent (defaults optional), responses as received
+const COMPONENTS: { [name: string]: [z.ZodType, 'input' | 'output'] } = {
+  DownloadRequest: [downloadRequestSchema, 'input'],
+  BatchRequest: [batchRequestSchema, 'input'],
+  CreateApiKeyRequest: [createApiKeyRequestSchema, 'input'],
+  VideoInfo: [videoInfoSchema, 'output'],
+  CaptionTracks: [captionTracksSchema, 'output'],
+  Playlist: [playlistSchema, 'output'],
+  JobStatus: [jobStatusSchema, 'output'],
+  Usage: [usageSchema, 'output'],
+  History: [historySchema, 'output'],
+  ApiKey: [apiKeySchema, 'output'],
+  ApiKeyList: [apiKeyListSchema, 'output'],
+  CreatedApiKey: [createdApiKeySchema, 'output'],
+  Error: [errorSchema, 'output'],
+}
+
+function jsonSchema(schema: z.ZodType, io: 'input' | 'output'): JsonSchema {
+  const { $schema: _, ...rest } = z.toJSONSchema(schema, { io }) as JsonSchema
+  return rest
+}
+
+const ref = (name: keyof typeof COMPONENTS) => ({ $ref: `#/components/schemas/${name}` })
+
+const jsonBody = (name: keyof typeof COMPONENTS, description: string) => ({
+  description,
+  content: { 'application/json': { schema: ref(name) } },
+})
+
+const fileContent = (...contentTypes: string[]) =>
+  Object.fromEntries(contentTypes.map((type) => [type, { schema: { type: 'string', format: 'binary' } }]))
+
+const fileBody = (description: string, ...contentTypes: string[]) => ({ description, content: fileContent(...contentTypes) })
+
+function queryParameters(schema: z.ZodType): JsonSchema[] {
+  const { properties = {}, required = [] } = jsonSchema(schema, 'input')
+  return Object.entries(properties as { [name: string]: JsonSchema }).map(([name, { description, ...property }]) => ({
+    name,
+    in: 'query',
+    required: required.includes(name),
+    description,
+    schema: property,
+  }))
+}
+
+const pathParameter = (name: string, description: string, type = 'string') => ({
+  name,
+  in: 'path',
+  required: true,
+  description,
+  schema: { type },
+})
+
+const errors = { default: jsonBody('Error', 'An error; see code for what went wrong') }
+const keyRequired = [{ bearerAuth: [] }]
+
+function buildDocument() {
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'YouTube Downloader API',
+      version: packageJson.version,
+      description: 'Download YouTube videos and audio. Every error has the Error shape; '
+        + 'INVALID_REQUEST errors list each invalid field under fields.',
+    },
+    // An API key is optional for downloads; it raises the rate limits
+    security: [{}, { bearerAuth: [] }],
+    paths: {
+      '/api/info': {
+        get: {
+          summary: 'Title, formats, qualities and captions of a video',
+          parameters: queryParameters(urlQuerySchema),
+          responses: { 200: jsonBody('VideoInfo', 'Video details'), ...errors },
+        },
+      },
+      '/api/playlist': {
+        get: {
+          summary: 'Entries of a playlist, or the uploads of a channel',
+          parameters: queryParameters(urlQuerySchema),
+          responses: { 200: jsonBody('Playlist', 'The playlist'), ...errors },
+        },
+      },
+      '/api/captions': {
+        get: {
+          summary: 'List caption tracks, or download one with ?track=',
+          parameters: queryParameters(captionsQuerySchema),
+          responses: {
+            200: {
+              description: 'The track list, or the converted track',
+              content: {
+                'application/json': { schema: ref('CaptionTracks') },
+                ...fileContent('application/x-subrip', 'text/vtt', 'text/plain'),
+              },
+            },
+            ...errors,
+          },
+        },
+      },
+      '/api/thumbnail': {
+        get: {
+          summary: 'The largest thumbnail or the channel picture',
+          parameters: queryParameters(thumbnailQuerySchema),
+          responses: { 200: fileBody('The image', 'image/jpeg', 'image/webp', 'image/png'), ...errors },
+        },
+      },
+      '/api/download': {
+        post: {
+          summary: 'Download a video or its audio, streamed as it is fetched',
+          requestBody: { required: true, ...jsonBody('DownloadRequest', 'What to download') },
+          responses: {
+            200: fileBody('The file', 'video/mp4', 'video/x-matroska', 'audio/mp4', 'audio/webm', 'audio/mpeg'),
+            ...errors,
+          },
+        },
+      },
+      '/api/download/{videoId}/{itag}': {
+        get: {
+          summary: 'One format, untouched, with Range support',
+          parameters: [
+            pathParameter('videoId', 'YouTube video ID'),
+            pathParameter('itag', 'Format itag from /api/info', 'integer'),
+            ...queryParameters(formatQuerySchema),
+          ],
+          responses: {
+            200: fileBody('The whole format', 'application/octet-stream'),
+            206: fileBody('The requested byte range', 'application/octet-stream'),
+            ...errors,
+          },
+        },
+      },
+      '/api/batch': {
+        post: {
+          summary: 'Start a background download of several videos into one ZIP archive',
+          requestBody: { required: true, ...jsonBody('BatchRequest', 'What to download') },
+          responses: { 202: jsonBody('JobStatus', 'The queued job; poll its Location'), ...errors },
+        },
+      },
+      '/api/jobs': {
+        post: {
+          summary: 'Start a background download',
+          requestBody: { required: true, ...jsonBody('DownloadRequest', 'What to download') },
+          responses: { 202: jsonBody('JobStatus', 'The queued job; poll its Location'), ...errors },
+        },
+      },
+      '/api/jobs/{id}': {
+        get: {
+          summary: 'Progress of a background download',
+          parameters: [pathParameter('id', 'Job ID')],
+          responses: { 200: jsonBody('JobStatus', 'The job'), ...errors },
+        },
+      },
+      '/api/jobs/{id}/file': {
+        get: {
+          summary: 'The finished file of a background download, with Range support',
+          parameters: [pathParameter('id', 'Job ID')],
+          responses: {
+            200: fileBody('The file', 'application/octet-stream'),
+            206: fileBody('The requested byte range', 'application/octet-stream'),
+            ...errors,
+          },
+        },
+      },
+      '/api/usage': {
+        get: {
+          summary: "Today's usage and quotas for the API key",
+          security: keyRequired,
+          responses: { 200: jsonBody('Usage', 'Usage'), ...errors },
+        },
+      },
+      '/api/history': {
+        get: {
+          summary: 'Downloads made with the API key, newest first',
+          security: keyRequired,
+          responses: { 200: jsonBody('History', 'The history'), ...errors },
+        },
+        delete: {
+          summary: 'Clear the history of the API key',
+          security: keyRequired,
+          responses: { 204: { description: 'Cleared' }, ...errors },
+        },
+      },
+      '/api/admin/keys': {
+        get: {
+          summary: 'Every API key with today\'s usage (ADMIN_TOKEN)',
+          security: keyRequired,
+          responses: { 200: jsonBody('ApiKeyList', 'The keys'), ...errors },
+        },
+        post: {
+          summary: 'Create an API key (ADMIN_TOKEN)',
+          security: keyRequired,
+          requestBody: { required: true, ...jsonBody('CreateApiKeyRequest', 'The new key') },
+          responses: { 201: jsonBody('CreatedApiKey', 'The key, shown only this once'), ...errors },
+        },
+      },
+      '/api/admin/keys/{id}': {
+        delete: {
+          summary: 'Revoke an API key (ADMIN_TOKEN)',
+          security: keyRequired,
+          parameters: [pathParameter('id', 'API key ID')],
+          responses: { 200: jsonBody('ApiKey', 'The revoked key'), ...errors },
+        },
+      },
+    },
+    components: {
+      schemas: Object.fromEntries(
+        Object.entries(COMPONENTS).map(([name, [schema, io]]) => [name, jsonSchema(schema, io)])
+      ),
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', description: 'An API key, or ADMIN_TOKEN for /api/admin' },
+      },
+    },
+  }
+}
+
+let document: ReturnType<typeof buildDocument> | null = null
+
+export function openApiDocument() {
+  document ??= buildDocument()
+  return document
+}
@@ -0,0 +1,51 @@
+import ytpl from '@distube/ytpl'
+import { requestOptions } from '@/lib/extractor'
+
+// Large channels can have thousands of uploads; only the newest are listed
+export const MAX_PLAYLIST_ITEMS = 200
+
+export interface PlaylistEntry {
+  videoId: string
+  url: string
+  title: string
+  thumbnail: string | null
+  durationSeconds: number | null
+  channel: string | null
+}
+
+export interface PlaylistSummary {
+  playlistId: string
+  title: string
+  channel: string | null
+  totalItems: number
+  entries: PlaylistEntry[]
+}
+
+// Parse ytpl's "1:02:03" style durations
+function parseDuration(duration: string | null): number | null {
+  if (!duration) return null
+  return duration.split(':').reduce((total, part) => total * 60 + (parseInt(part, 10) || 0), 0)
+}
+
+// Resolve a playlist URL/ID or a channel URL (its uploads playlist) into entries
+export async function getPlaylist(urlOrId: string): Promise<PlaylistSummary> {
+  const playlist = await ytpl(urlOrId, {
+    limit: MAX_PLAYLIST_ITEMS,
+    requestOptions: requestOptions.requestOptions,
+  })
+
+  return {
+    playlistId: playlist.id,
+    title: playlist.title,
+    channel: playlist.author?.name || null,
+    totalItems: playlist.total_items,
+    entries: playlist.items.map((item) => ({
+      videoId: item.id,
+      url: item.url_simple,
+      title: item.title,
+      thumbnail: item.thumbnail || null,
+      durationSeconds: parseDuration(item.duration),
+      channel: item.author?.name || null,
+    })),
+  }
+}
@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  createMemoryStore,
+  createRedisStore,
+  RateLimitAlgorithm,
+  RateLimitPolicy,
+  RateLimitStore,
+} from '@/lib/rate-limit-store'
+
+const ALGORITHMS: RateLimitAlgorithm[] = ['fixed-window', 'sliding-window', 'token-bucket']
+
+function policy(algorithm: RateLimitAlgorithm, limit = 5, windowMs = 60 * 1000): RateLimitPolicy {
+  return { name: 'test', limit, windowMs, algorithm }
+}
+
+async function consumeTimes(store: RateLimitStore, key: string, rule: RateLimitPolicy, times: number) {
+  const results = []
+  for (let i = 0; i < times; i++) results.push(await store.consume(key, rule, 1))
+  return results
+}
+
+// Behaviour every store shares, without moving the clock, so it also holds
+// against a real Redis server
+function describeStore(name: string, createStore: () => RateLimitStore) {
+  describe.each(ALGORITHMS)(`${name} store, %s`, (algorithm) => {
+    let store: RateLimitStore
+    let key: string
+    beforeEach(() => {
+      store = createStore()
+      key = `client-${Math.random().toString(36).slice(2)}`
+    })
+
+    it('allows requests up to the limit, then refuses', async () => {
+      const results = await consumeTimes(store, key, policy(algorithm), 6)
+      expect(results.map((result) => result.allowed)).toEqual([true, true, true, true, true, false])
+      expect(results.map((result) => result.remaining)).toEqual([4, 3, 2, 1, 0, 0])
+      expect(results[5].limit).toBe(5)
+      expect(results[5].retryAfterMs).toBeGreaterThan(0)
+      expect(results[5].resetTime).toBeGreaterThan(Date.now())
+    })
+
+    it('counts a request with a cost as several', async () => {
+      const rule = policy(algorithm)
+      expect(await store.consume(key, rule, 4)).toMatchObject({ allowed: true, remaining: 1 })
+      expect(await store.consume(key, rule, 2)).toMatchObject({ allowed: false, remaining: 1 })
+      expect(await store.consume(key, rule, 1)).toMatchObject({ allowed: true, remaining: 0 })
+    })
+
+    it('keeps separate budgets per client and per policy', async () => {
+      const rule = policy(algorithm)
+      await consumeTimes(store, key, rule, 5)
+      expect((await store.consume(key, rule, 1)).allowed).toBe(false)
+      expect((await store.consume(`${key}-other`, rule, 1)).allowed).toBe(true)
+      expect((await store.consume(key, { ...rule, name: 'other' }, 1)).allowed).toBe(true)
+    })
+  })
+}
+
+describeStore('memory', createMemoryStore)
+
+const REDIS_URL = process.env.REDIS_URL
+const redisPrefix = `test:${Date.now()}:`
+describe.skipIf(!REDIS_URL)('redis', () => {
+  describeStore('redis', () => createRedisStore(REDIS_URL!, redisPrefix))
+})
+
+describe('memory store over time', () => {
+  // Whole windows from the epoch, so sliding windows start on a boundary
+  const START = 1_000_000
+  let store: RateLimitStore
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(START)
+    store = createMemoryStore()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('fixed window: starts at the first request and resets after one window', async () => {
+    const rule = policy('fixed-window', 3, 1000)
+    vi.setSystemTime(START + 400)
+    await consumeTimes(store, 'a', rule, 3)
+
+    vi.setSystemTime(START + 1300)
+    expect(await store.consume('a', rule, 1)).toMatchObject({
+      allowed: false,
+      resetTime: START + 1400,
+      retryAfterMs: 100,
+    })
+
+    vi.setSystemTime(START + 1400)
+    expect(await store.consume('a', rule, 1)).toMatchObject({ allowed: true, remaining: 2 })
+  })
+
+  it('sliding window: weights the previous window by how much still overlaps', async () => {
+    const rule = policy('sliding-window', 10, 1000)
+    await consumeTimes(store, 'a', rule, 10)
+    expect((await store.consume('a', rule, 1)).allowed).toBe(false)
+
+    // Halfway through the next window, half of the previous 10 still count
+    vi.setSystemTime(START + 1500)
+    const results = await consumeTimes(store, 'a', rule, 6)
+    expect(results.map((result) => result.allowed)).toEqual([true, true, true, true, true, false])
+    expect(results[5]).toMatchObject({ resetTime: START + 2000, retryAfterMs: 500 })
+
+    // Two windows on, nothing from the first one counts
+    vi.setSystemTime(START + 3000)
+    expect(await store.consume('a', rule, 1)).toMatchObject({ allowed: true, remaining: 9 })
+  })
+
+  it('token bucket: refills continuously at limit per window', async () => {
+    const rule = policy('token-bucket', 10, 1000)
+    await consumeTimes(store, 'a', rule, 10)
+    expect(await store.consume('a', rule, 1)).toMatchObject({ allowed: false, retryAfterMs: 100 })
+
+    vi.setSystemTime(START + 100)
+    expect(await store.consume('a', rule, 1)).toMatchObject({ allowed: true, remaining: 0 })
+    expect((await store.consume('a', rule, 1)).allowed).toBe(false)
+
+    // Never refills past the limit
+    vi.setSystemTime(START + 60 * 1000)
+    expect(await store.consume('a', rule, 1)).toMatchObject({ allowed: true, remaining: 9, resetTime: START + 60 * 1000 + 100 })
+  })
+
+  it('token bucket: a cost larger than the tokens left waits for all of them', async () => {
+    const rule = policy('token-bucket', 10, 1000)
+    await store.consume('a', rule, 8)
+    expect(await store.consume('a', rule, 5)).toMatchObject({ allowed: false, remaining: 2, retryAfterMs: 300 })
+  })
+})
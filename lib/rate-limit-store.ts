@@ -0,0 +1,196 @@
+// Storage backends for the rate limiter. Each store runs the limiting
+// algorithm itself so the check-and-update is atomic: in-process for the
+// memory store, and as a Lua script for Redis.
+
+import Redis from 'ioredis'
+
+export type RateLimitAlgorithm = 'fixed-window' | 'sliding-window' | 'token-bucket'
+
+export interface RateLimitPolicy {
+  name: string
+  limit: number
+  windowMs: number
+  algorithm: RateLimitAlgorithm
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  limit: number
+  remaining: number
+  resetTime: number // when the limit is fully available again (epoch ms)
+  retryAfterMs: number // how long to wait before this request would be allowed
+}
+
+export interface RateLimitStore {
+  consume(key: string, policy: RateLimitPolicy, cost: number): Promise<RateLimitResult>
+}
+
+interface MemoryEntry {
+  count: number // fixed window: requests in window; sliding window: current window count
+  previous: number // sliding window: count in the previous window
+  windowStart: number
+  tokens: number // token bucket
+  updatedAt: number
+  expiresAt: number
+}
+
+// In-memory store. Resets on every serverless cold start and is not shared
+// between instances; fine for development or a single long-running server.
+export function createMemoryStore(): RateLimitStore {
+  const entries = new Map<string, MemoryEntry>()
+  let lastCleanup = Date.now()
+
+  const cleanup = (now: number) => {
+    if (now - lastCleanup < 60 * 1000) return
+    lastCleanup = now
+    entries.forEach((entry, key) => {
+      if (now > entry.expiresAt) entries.delete(key)
+    })
+  }
+
+  return {
+    async consume(key, policy, cost) {
+      const now = Date.now()
+      cleanup(now)
+      const { limit, windowMs } = policy
+      const entryKey = `${policy.name}:${key}`
+      let entry = entries.get(entryKey)
+
+      if (policy.algorithm === 'token-bucket') {
+        const rate = limit / windowMs
+        if (!entry) {
+          entry = { count: 0, previous: 0, windowStart: now, tokens: limit, updatedAt: now, expiresAt: 0 }
+          entries.set(entryKey, entry)
+        }
+        entry.tokens = Math.min(limit, entry.tokens + (now - entry.updatedAt) * rate)
+        entry.updatedAt = now
+        entry.expiresAt = now + windowMs
+
+        const allowed = entry.tokens >= cost
+        if (allowed) entry.tokens -= cost
+        return {
+          allowed,
+          limit,
+          remaining: Math.floor(entry.tokens),
+          resetTime: now + Math.ceil((limit - entry.tokens) / rate),
+          retryAfterMs: allowed ? 0 : Math.ceil((cost - entry.tokens) / rate),
+        }
+      }
+
+      // A fixed window starts at the first request; sliding windows are aligned
+      // so the previous window's count can be weighted in
+      const windowStart = policy.algorithm === 'fixed-window'
+        ? (entry && now < entry.windowStart + windowMs ? entry.windowStart : now)
+        : now - (now % windowMs)
+      if (!entry) {
+        entry = { count: 0, previous: 0, windowStart, tokens: 0, updatedAt: now, expiresAt: 0 }
+        entries.set(entryKey, entry)
+      }
+      if (entry.windowStart !== windowStart) {
+        // Roll the window forward; anything older than one window no longer counts
+        entry.previous = entry.windowStart === windowStart - windowMs ? entry.count : 0
+        entry.count = 0
+        entry.windowStart = windowStart
+      }
+      entry.expiresAt = windowStart + windowMs * 2
+
+      const resetTime = windowStart + windowMs
+      // The sliding window weights the previous window by how much of it still overlaps
+      const used = policy.algorithm === 'sliding-window'
+        ? entry.previous * (1 - (now - windowStart) / windowMs) + entry.count
+        : entry.count
+
+      if (used + cost > limit) {
+        return { allowed: false, limit, remaining: Math.max(0, Math.floor(limit - used)), resetTime, retryAfterMs: resetTime - now }
+      }
+
+      entry.count += cost
+      return { allowed: true, limit, remaining: Math.floor(limit - used - cost), resetTime, retryAfterMs: 0 }
+    },
+  }
+}
+
+// Lua versions of the algorithms above. Each returns
+// { allowed (0|1), remaining, resetInMs, retryAfterMs }.
+const SCRIPTS: { [key in RateLimitAlgorithm]: string } = {
+  'fixed-window': `
+    local limit, window, cost = tonumber(ARGV[1]), tonumber(ARGV[2]), tonumber(ARGV[3])
+    local count = tonumber(redis.call('GET', KEYS[1]) or '0')
+    local ttl = redis.call('PTTL', KEYS[1])
+    if ttl < 0 then
+      count = 0
+      ttl = window
+    end
+    if count + cost > limit then
+      return {0, math.max(0, limit - count), ttl, ttl}
+    end
+    count = redis.call('INCRBY', KEYS[1], cost)
+    redis.call('PEXPIRE', KEYS[1], ttl)
+    return {1, limit - count, ttl, 0}
+  `,
+  'sliding-window': `
+    local limit, window, cost, now = tonumber(ARGV[1]), tonumber(ARGV[2]), tonumber(ARGV[3]), tonumber(ARGV[4])
+    local index = math.floor(now / window)
+    local currentKey = KEYS[1] .. ':' .. index
+    local current = tonumber(redis.call('GET', currentKey) or '0')
+    local previous = tonumber(redis.call('GET', KEYS[1] .. ':' .. (index - 1)) or '0')
+    local elapsed = now - index * window
+    local used = previous * (1 - elapsed / window) + current
+    local reset = window - elapsed
+    if used + cost > limit then
+      return {0, math.max(0, math.floor(limit - used)), reset, reset}
+    end
+    redis.call('INCRBY', currentKey, cost)
+    redis.call('PEXPIRE', currentKey, window * 2)
+    return {1, math.floor(limit - used - cost), reset, 0}
+  `,
+  'token-bucket': `
+    local limit, window, cost, now = tonumber(ARGV[1]), tonumber(ARGV[2]), tonumber(ARGV[3]), tonumber(ARGV[4])
+    local rate = limit / window
+    local state = redis.call('HMGET', KEYS[1], 'tokens', 'updated')
+    local tokens = tonumber(state[1]) or limit
+    local updated = tonumber(state[2]) or now
+    tokens = math.min(limit, tokens + math.max(0, now - updated) * rate)
+    local allowed = 0
+    local wait = 0
+    if tokens >= cost then
+      tokens = tokens - cost
+      allowed = 1
+    else
+      wait = math.ceil((cost - tokens) / rate)
+    end
+    redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updated', now)
+    redis.call('PEXPIRE', KEYS[1], window)
+    return {allowed, math.floor(tokens), math.ceil((limit - tokens) / rate), wait}
+  `,
+}
+
+// Redis-backed store, shared by every instance pointing at the same server.
+// Works with anything speaking the Redis protocol (Redis, Valkey, KeyDB, Upstash).
+export function createRedisStore(url: string, prefix = 'ratelimit:'): RateLimitStore {
+  const redis = new Redis(url, { maxRetriesPerRequest: 1 })
+  redis.on('error', (error) => console.error('Rate limit store error:', error.message))
+
+  return {
+    async consume(key, policy, cost) {
+      const now = Date.now()
+      const [allowed, remaining, resetInMs, retryAfterMs] = await redis.eval(
+        SCRIPTS[policy.algorithm],
+        1,
+        `${prefix}${policy.name}:${key}`,
+        policy.limit,
+        policy.windowMs,
+        cost,
+        now
+      ) as number[]
+
+      return {
+        allowed: allowed === 1,
+        limit: policy.limit,
+        remaining,
+        resetTime: now + resetInMs,
+        retryAfterMs,
+      }
+    },
+  }
+}
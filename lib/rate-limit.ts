@@ -1,66 +1,125 @@
-// Simple in-memory rate limiter for Vercel serverless
-// For production, consider using Redis or Vercel KV
+// Rate limiting with per-route policies. Counters live in a pluggable store:
+// in-memory by default, or Redis (set RATE_LIMIT_STORE=redis and REDIS_URL)
+// so limits survive cold starts and are shared across serverless instances.
 
-interface RateLimitStore {
-  [key: string]: {
-    count: number
-    resetTime: number
-  }
-}
-
-const store: RateLimitStore = {}
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  createMemoryStore,
+  createRedisStore,
+  RateLimitAlgorithm,
+  RateLimitPolicy,
+  RateLimitResult,
+  RateLimitStore,
+} from '@/lib/rate-limit-store'
+import { resolveClientIdentity } from '@/lib/client-identity'
+import { consumeQuota, getBearerToken, quotaResetTime } from '@/lib/api-keys'
+import { AppError } from '@/lib/errors'
+import { errorResponse } from '@/lib/api-error'
 
 const RATE_LIMIT_WINDOW = 60 * 1000 // 1 minute
 // Increased limit for better user experience - can be adjusted via env variable
 // In development, use a much higher limit or disable
 const isDevelopment = process.env.NODE_ENV === 'development'
-const MAX_REQUESTS_PER_WINDOW = process.env.RATE_LIMIT_MAX_REQUESTS 
-  ? parseInt(process.env.RATE_LIMIT_MAX_REQUESTS, 10) 
-  : isDevelopment 
+const MAX_REQUESTS_PER_WINDOW = process.env.RATE_LIMIT_MAX_REQUESTS
+  ? parseInt(process.env.RATE_LIMIT_MAX_REQUESTS, 10)
+  : isDevelopment
     ? 100 // Very lenient in development (100 requests per minute)
     : 30 // 30 requests per minute per IP in production (increased from 10)
 
-export function rateLimit(identifier: string): { allowed: boolean; remaining: number; resetTime: number } {
-  const now = Date.now()
-  const key = identifier
+const ALGORITHMS: RateLimitAlgorithm[] = ['fixed-window', 'sliding-window', 'token-bucket']
+const RATE_LIMIT_ALGORITHM: RateLimitAlgorithm = ALGORITHMS.includes(process.env.RATE_LIMIT_ALGORITHM as RateLimitAlgorithm)
+  ? process.env.RATE_LIMIT_ALGORITHM as RateLimitAlgorithm
+  : 'sliding-window'
 
-  if (!store[key] || now > store[key].resetTime) {
-    // New window or expired window
-    store[key] = {
-      count: 1,
-      resetTime: now + RATE_LIMIT_WINDOW,
-    }
-    return {
-      allowed: true,
-      remaining: MAX_REQUESTS_PER_WINDOW - 1,
-      resetTime: store[key].resetTime,
-    }
+// Each route family has its own budget. Metadata lookups are cheap, so they
+// get more headroom than downloads, which also pass a cost per request
+// (see downloadCost) so a 4K download uses up more than a 720p one.
+export const RATE_LIMIT_POLICIES = {
+  info: { name: 'info', limit: MAX_REQUESTS_PER_WINDOW * 2, windowMs: RATE_LIMIT_WINDOW, algorithm: RATE_LIMIT_ALGORITHM },
+  playlist: { name: 'playlist', limit: MAX_REQUESTS_PER_WINDOW, windowMs: RATE_LIMIT_WINDOW, algorithm: RATE_LIMIT_ALGORITHM },
+  download: { name: 'download', limit: MAX_REQUESTS_PER_WINDOW, windowMs: RATE_LIMIT_WINDOW, algorithm: RATE_LIMIT_ALGORITHM },
+} satisfies { [name: string]: RateLimitPolicy }
+
+export type RateLimitRoute = keyof typeof RATE_LIMIT_POLICIES
+
+// A broken Redis setting falls back to memory rather than throwing here,
+// which would fail every route that rate limits
+function createStore(): RateLimitStore {
+  if (process.env.RATE_LIMIT_STORE !== 'redis') return createMemoryStore()
+
+  if (!process.env.REDIS_URL) {
+    console.error('RATE_LIMIT_STORE=redis requires REDIS_URL to be set; falling back to the in-memory rate limit store.')
+    return createMemoryStore()
+  }
+  try {
+    return createRedisStore(process.env.REDIS_URL)
+  } catch (error: any) {
+    console.error(`Could not set up the Redis rate limit store (${error.message}); falling back to the in-memory store.`)
+    return createMemoryStore()
   }
+}
 
-  if (store[key].count >= MAX_REQUESTS_PER_WINDOW) {
-    return {
-      allowed: false,
-      remaining: 0,
-      resetTime: store[key].resetTime,
-    }
+const store = createStore()
+
+// cost lets one request count as several, e.g. a batch of N videos
+export async function rateLimit(identifier: string, route: RateLimitRoute, cost = 1): Promise<RateLimitResult> {
+  const policy = RATE_LIMIT_POLICIES[route]
+  try {
+    return await store.consume(identifier, policy, cost)
+  } catch (error) {
+    // Fail open: an unreachable store should not take the whole site down
+    console.error('Rate limit check failed:', error)
+    return { allowed: true, limit: policy.limit, remaining: policy.limit, resetTime: Date.now(), retryAfterMs: 0 }
   }
+}
 
-  store[key].count++
-  return {
-    allowed: true,
-    remaining: MAX_REQUESTS_PER_WINDOW - store[key].count,
-    resetTime: store[key].resetTime,
+// Standard RateLimit-* headers (IETF draft) plus Retry-After when limited
+export function rateLimitHeaders(route: RateLimitRoute, result: RateLimitResult): Record<string, string> {
+  const policy = RATE_LIMIT_POLICIES[route]
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(Math.max(0, result.remaining)),
+    'RateLimit-Reset': String(Math.max(0, Math.ceil((result.resetTime - Date.now()) / 1000))),
+    'RateLimit-Policy': `${policy.limit};w=${policy.windowMs / 1000}`,
+  }
+  if (!result.allowed) {
+    headers['Retry-After'] = String(Math.ceil(result.retryAfterMs / 1000))
   }
+  return headers
 }
 
-// Clean up old entries periodically (simple cleanup)
-if (typeof setInterval !== 'undefined') {
-  setInterval(() => {
-    const now = Date.now()
-    Object.keys(store).forEach((key) => {
-      if (now > store[key].resetTime) {
-        delete store[key]
-      }
-    })
-  }, RATE_LIMIT_WINDOW)
+// Rate limit a route by client identity (API key, else client IP), returning
+// the response to send when the request is refused, or null when it may
+// proceed. API keys are additionally held to their daily quotas.
+export async function checkRateLimit(request: NextRequest, route: RateLimitRoute, cost = 1): Promise<NextResponse | null> {
+  const identity = await resolveClientIdentity(request)
+
+  // A script with a bad key should find out, not silently share the public limit
+  if (getBearerToken(request) && !identity.apiKey) {
+    return errorResponse(new AppError('UNAUTHORIZED'), { 'WWW-Authenticate': 'Bearer' })
+  }
+
+  const rateLimitResult = await rateLimit(identity.key, route, cost)
+  if (!rateLimitResult.allowed) {
+    const resetInSeconds = Math.ceil(rateLimitResult.retryAfterMs / 1000)
+    return errorResponse(
+      new AppError('RATE_LIMITED', {
+        message: `Rate limit exceeded. Please try again in ${resetInSeconds} seconds.`,
+        resetTime: Date.now() + rateLimitResult.retryAfterMs,
+      }),
+      rateLimitHeaders(route, rateLimitResult)
+    )
+  }
+
+  if (identity.apiKey) {
+    const quota = await consumeQuota(identity.apiKey, route === 'download')
+    if (!quota.allowed) {
+      return errorResponse(new AppError('QUOTA_EXCEEDED', {
+        message: `Daily ${quota.reason === 'bytes' ? 'download volume' : 'request'} quota exceeded for this API key. It resets at midnight UTC.`,
+        resetTime: quotaResetTime(),
+      }))
+    }
+  }
+
+  return null
 }
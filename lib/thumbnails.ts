@@ -0,0 +1,110 @@
+import ytdl from '@distube/ytdl-core'
+import { Readable } from 'stream'
+import { AppError } from '@/lib/errors'
+import { CoverArt, runFfmpeg } from '@/lib/ffmpeg'
+
+export type ImageFormat = 'jpeg' | 'webp' | 'png'
+
+export const IMAGE_FORMATS: {
+  [key in ImageFormat]: { contentType: string; extension: string; codecArgs: string[] }
+} = {
+  jpeg: { contentType: 'image/jpeg', extension: 'jpg', codecArgs: ['-c:v', 'mjpeg', '-q:v', '2'] },
+  webp: { contentType: 'image/webp', extension: 'webp', codecArgs: ['-c:v', 'libwebp', '-quality', '90'] },
+  png: { contentType: 'image/png', extension: 'png', codecArgs: ['-c:v', 'png'] },
+}
+
+export type ImageSource = 'video' | 'channel'
+
+interface ImageCandidate {
+  url: string
+  width: number
+  height: number
+}
+
+// Every video has these on i.ytimg.com, but maxresdefault and sddefault only
+// exist when the upload was large enough, and answer 404 otherwise
+const STANDARD_THUMBNAILS: { name: string; width: number; height: number }[] = [
+  { name: 'maxresdefault', width: 1280, height: 720 },
+  { name: 'sddefault', width: 640, height: 480 },
+  { name: 'hqdefault', width: 480, height: 360 },
+  { name: 'mqdefault', width: 320, height: 180 },
+  { name: 'default', width: 120, height: 90 },
+]
+
+const FETCH_TIMEOUT_MS = 10000
+
+// Largest first. The listed thumbnails can include ones the standard names
+// do not cover, such as the portrait thumbnail of a Short.
+function imageCandidates(videoInfo: ytdl.videoInfo, source: ImageSource): ImageCandidate[] {
+  const { videoId, thumbnails, author } = videoInfo.videoDetails
+  const listed: ImageCandidate[] = source === 'channel' ? author?.thumbnails || [] : thumbnails || []
+  const standard = source === 'channel'
+    ? []
+    : STANDARD_THUMBNAILS.map(({ name, width, height }) => ({
+      url: `https://i.ytimg.com/vi/${videoId}/${name}.jpg`,
+      width,
+      height,
+    }))
+
+  const seen = new Set<string>()
+  return [...standard, ...listed]
+    .filter((candidate) => candidate.url)
+    .sort((a, b) => b.width * b.height - a.width * a.height)
+    .filter((candidate) => {
+      const key = candidate.url.split('?')[0]
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+}
+
+export interface FetchedImage {
+  data: Buffer
+  contentType: string
+  width: number
+  height: number
+}
+
+// Fetch the largest image that exists, walking down the candidates
+export async function fetchImage(videoInfo: ytdl.videoInfo, source: ImageSource = 'video'): Promise<FetchedImage> {
+  for (const candidate of imageCandidates(videoInfo, source)) {
+    const url = candidate.url.startsWith('//') ? `https:${candidate.url}` : candidate.url
+    try {
+      const response = await fetch(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) })
+      const contentType = response.headers.get('content-type')?.split(';')[0] || ''
+      if (!response.ok || !contentType.startsWith('image/')) continue
+      return {
+        data: Buffer.from(await response.arrayBuffer()),
+        contentType,
+        width: candidate.width,
+        height: candidate.height,
+      }
+    } catch (error) {
+      console.warn(`Could not fetch ${url}:`, error)
+    }
+  }
+
+  throw new AppError('NOT_FOUND', {
+    message: source === 'channel' ? 'No channel picture is available for this video.' : 'No thumbnail is available for this video.',
+  })
+}
+
+// The image in the requested format; it is only re-encoded when the format differs
+export function convertImage(image: FetchedImage, format: ImageFormat): Readable {
+  const { contentType, codecArgs } = IMAGE_FORMATS[format]
+  if (image.contentType === contentType) {
+    return Readable.from([image.data])
+  }
+  return runFfmpeg(['-i', 'pipe:3', '-frames:v', '1', ...codecArgs, '-f', 'image2pipe', 'pipe:1'], [Readable.from([image.data])])
+}
+
+// The video thumbnail for embedding as cover art, or null when none can be
+// fetched; cover art is decoration, so its absence does not fail a download
+export async function fetchCoverArt(videoInfo: ytdl.videoInfo): Promise<CoverArt | null> {
+  try {
+    const { data, contentType } = await fetchImage(videoInfo)
+    return { image: data, contentType }
+  } catch {
+    return null
+  }
+}
@@ -5,13 +5,41 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
-export function isValidYouTubeUrl(url: string): boolean {
-  const youtubeRegex = /^(https?:\/\/)?(www\.)?(youtube\.com|youtu\.be)\/.+/
-  return youtubeRegex.test(url)
+// Parse a timestamp such as "90", "1:30", "1:02:03", "90s" or "1h2m3s"
+// (the forms YouTube uses in t= links) into seconds
+export function parseTimestamp(value: string | number): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) && value >= 0 ? value : null
+
+  const text = value.trim()
+  if (/^\d+(\.\d+)?$/.test(text)) return parseFloat(text)
+
+  const clock = text.match(/^(?:(\d+):)?(\d{1,2}):([0-5]?\d(?:\.\d+)?)$/)
+  if (clock) {
+    return parseInt(clock[1] || '0', 10) * 3600 + parseInt(clock[2], 10) * 60 + parseFloat(clock[3])
+  }
+
+  const units = text.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+(?:\.\d+)?)s)?$/)
+  if (units && text) {
+    return parseInt(units[1] || '0', 10) * 3600 + parseInt(units[2] || '0', 10) * 60 + parseFloat(units[3] || '0')
+  }
+  return null
+}
+
+export function formatDuration(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = Math.floor(totalSeconds % 60)
+  const pad = (n: number) => n.toString().padStart(2, '0')
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`
 }
 
-export function extractVideoId(url: string): string | null {
-  const regex = /(?:youtube\.com\/(?:[^\/]+\/.+\/|(?:v|e(?:mbed)?)\/|.*[?&]v=)|youtu\.be\/)([^"&?\/\s]{11})/
-  const match = url.match(regex)
-  return match ? match[1] : null
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB']
+  let value = bytes
+  let unit = 0
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024
+    unit++
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`
 }
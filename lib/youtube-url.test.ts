@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest'
+import { isVideoUrl, parseYouTubeUrl } from '@/lib/youtube-url'
+
+const ID = 'dQw4w9WgXcQ'
+const LIST = 'PLrAXtmErZgOeiKm4sgNOknGvNjby9efdf'
+const WATCH = `https://www.youtube.com/watch?v=${ID}`
+
+describe('parseYouTubeUrl', () => {
+  describe('videos', () => {
+    it.each([
+      ['bare ID', ID],
+      ['watch page', `https://www.youtube.com/watch?v=${ID}`],
+      ['no scheme', `youtube.com/watch?v=${ID}`],
+      ['http', `http://youtube.com/watch?v=${ID}`],
+      ['surrounding whitespace', `  ${WATCH}\n`],
+      ['upper-case host', `https://WWW.YOUTUBE.COM/watch?v=${ID}`],
+      ['extra parameters', `https://www.youtube.com/watch?feature=share&v=${ID}&ab_channel=Someone`],
+      ['youtu.be', `https://youtu.be/${ID}`],
+      ['youtu.be with share id', `https://youtu.be/${ID}?si=abc123`],
+      ['mobile', `https://m.youtube.com/watch?v=${ID}`],
+      ['music', `https://music.youtube.com/watch?v=${ID}`],
+      ['embed', `https://www.youtube.com/embed/${ID}`],
+      ['nocookie embed', `https://www.youtube-nocookie.com/embed/${ID}`],
+      ['/v/', `https://www.youtube.com/v/${ID}`],
+      ['/e/', `https://www.youtube.com/e/${ID}`],
+      ['attribution link', `https://www.youtube.com/attribution_link?u=%2Fwatch%3Fv%3D${ID}%26feature%3Dshare`],
+    ])('%s', (_, input) => {
+      expect(parseYouTubeUrl(input)).toEqual({
+        type: 'video',
+        id: ID,
+        list: null,
+        index: null,
+        timestamp: null,
+        canonicalUrl: WATCH,
+      })
+    })
+
+    it.each([
+      ['shorts', `https://www.youtube.com/shorts/${ID}`, 'short'],
+      ['mobile shorts', `https://m.youtube.com/shorts/${ID}?feature=share`, 'short'],
+      ['live', `https://www.youtube.com/live/${ID}`, 'live'],
+      ['live with share id', `https://www.youtube.com/live/${ID}?si=abc123`, 'live'],
+    ])('%s', (_, input, type) => {
+      expect(parseYouTubeUrl(input)).toMatchObject({ type, id: ID, canonicalUrl: WATCH })
+    })
+  })
+
+  describe('timestamps', () => {
+    it.each([
+      ['t in seconds', `${WATCH}&t=90`, 90],
+      ['t with unit', `${WATCH}&t=90s`, 90],
+      ['t in minutes and seconds', `${WATCH}&t=1m30s`, 90],
+      ['start', `https://www.youtube.com/embed/${ID}?start=90`, 90],
+      ['youtu.be', `https://youtu.be/${ID}?t=90`, 90],
+      ['fragment', `${WATCH}#t=90`, 90],
+    ])('%s', (_, input, timestamp) => {
+      expect(parseYouTubeUrl(input)).toMatchObject({
+        timestamp,
+        canonicalUrl: `${WATCH}&t=${timestamp}s`,
+      })
+    })
+  })
+
+  describe('videos opened from a playlist', () => {
+    it.each([
+      ['watch page', `${WATCH}&list=${LIST}&index=3`, 3],
+      ['youtu.be', `https://youtu.be/${ID}?list=${LIST}&index=3`, 3],
+      ['no index', `${WATCH}&list=${LIST}`, null],
+      ['index of zero', `${WATCH}&list=${LIST}&index=0`, null],
+    ])('%s', (_, input, index) => {
+      const parsed = parseYouTubeUrl(input)
+      expect(parsed).toMatchObject({ type: 'video', id: ID, list: LIST, index })
+      expect(parsed?.canonicalUrl).toBe(index ? `${WATCH}&list=${LIST}&index=${index}` : `${WATCH}&list=${LIST}`)
+    })
+
+    it('drops a malformed list', () => {
+      expect(parseYouTubeUrl(`${WATCH}&list=!!&index=3`)).toMatchObject({ list: null, index: null, canonicalUrl: WATCH })
+    })
+  })
+
+  describe('playlists', () => {
+    it.each([
+      ['playlist page', `https://www.youtube.com/playlist?list=${LIST}`],
+      ['mobile', `https://m.youtube.com/playlist?list=${LIST}`],
+      ['music', `https://music.youtube.com/playlist?list=${LIST}`],
+      ['watch page without a video', `https://www.youtube.com/watch?list=${LIST}`],
+      ['embedded playlist', `https://www.youtube.com/embed/videoseries?list=${LIST}`],
+      ['mix', 'https://www.youtube.com/playlist?list=RDdQw4w9WgXcQ'],
+    ])('%s', (_, input) => {
+      const list = new URL(input).searchParams.get('list')
+      expect(parseYouTubeUrl(input)).toEqual({
+        type: 'playlist',
+        list,
+        canonicalUrl: `https://www.youtube.com/playlist?list=${list}`,
+      })
+    })
+  })
+
+  describe('channels', () => {
+    it.each([
+      ['handle', 'https://www.youtube.com/@SomeChannel', '@SomeChannel', 'https://www.youtube.com/@SomeChannel'],
+      ['handle videos tab', 'https://www.youtube.com/@SomeChannel/videos', '@SomeChannel', 'https://www.youtube.com/@SomeChannel'],
+      ['handle streams tab', 'https://m.youtube.com/@SomeChannel/streams', '@SomeChannel', 'https://www.youtube.com/@SomeChannel'],
+      [
+        'channel ID',
+        'https://www.youtube.com/channel/UCuAXFkgsw1L7xaCfnd5JJOw',
+        'UCuAXFkgsw1L7xaCfnd5JJOw',
+        'https://www.youtube.com/channel/UCuAXFkgsw1L7xaCfnd5JJOw',
+      ],
+      ['custom URL', 'https://www.youtube.com/c/SomeChannel', 'c/SomeChannel', 'https://www.youtube.com/c/SomeChannel'],
+      ['legacy user', 'https://www.youtube.com/user/SomeChannel/featured', 'user/SomeChannel', 'https://www.youtube.com/user/SomeChannel'],
+    ])('%s', (_, input, channel, canonicalUrl) => {
+      expect(parseYouTubeUrl(input)).toEqual({ type: 'channel', channel, canonicalUrl })
+    })
+  })
+
+  describe('invalid input', () => {
+    it.each([
+      ['empty', ''],
+      ['whitespace', '   '],
+      ['not a URL', 'not a url at all'],
+      ['ID too short', 'dQw4w9WgXc'],
+      ['ID too long', 'dQw4w9WgXcQQ'],
+      ['other host', `https://vimeo.com/watch?v=${ID}`],
+      ['lookalike host', `https://youtube.com.evil.example/watch?v=${ID}`],
+      ['unknown subdomain', `https://gaming.youtube.com/watch?v=${ID}`],
+      ['watch without v or list', 'https://www.youtube.com/watch'],
+      ['watch with a bad ID', 'https://www.youtube.com/watch?v=short'],
+      ['watch with extra path', `https://www.youtube.com/watch/extra?v=${ID}`],
+      ['youtu.be without an ID', 'https://youtu.be/'],
+      ['youtu.be with extra path', `https://youtu.be/${ID}/extra`],
+      ['shorts without an ID', 'https://www.youtube.com/shorts/'],
+      ['embed with a bad ID', 'https://www.youtube.com/embed/nope'],
+      ['playlist without a list', 'https://www.youtube.com/playlist'],
+      ['playlist with a bad list', 'https://www.youtube.com/playlist?list=!'],
+      ['home page', 'https://www.youtube.com/'],
+      ['bare @', 'https://www.youtube.com/@'],
+      ['short channel ID', 'https://www.youtube.com/channel/UC123'],
+      ['unknown channel tab', 'https://www.youtube.com/@SomeChannel/community'],
+      ['unknown page', 'https://www.youtube.com/feed/subscriptions'],
+      ['absolute attribution target', `https://www.youtube.com/attribution_link?u=https://evil.example/watch?v=${ID}`],
+    ])('%s', (_, input) => {
+      expect(parseYouTubeUrl(input)).toBeNull()
+    })
+  })
+})
+
+describe('isVideoUrl', () => {
+  it.each([
+    [WATCH, true],
+    [`https://www.youtube.com/shorts/${ID}`, true],
+    [`https://www.youtube.com/live/${ID}`, true],
+    [`https://www.youtube.com/playlist?list=${LIST}`, false],
+    ['https://www.youtube.com/@SomeChannel', false],
+    ['not a url', false],
+  ])('%s', (input, expected) => {
+    expect(isVideoUrl(parseYouTubeUrl(input))).toBe(expected)
+  })
+})
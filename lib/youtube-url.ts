@@ -0,0 +1,139 @@
+// Parse the many shapes of YouTube link people paste (watch pages, youtu.be,
+// shorts, live, embeds, mobile and music hosts, attribution links, bare IDs)
+// into one of a few kinds, each with a canonical URL.
+
+import { parseTimestamp } from '@/lib/utils'
+
+export interface VideoUrl {
+  type: 'video' | 'short' | 'live'
+  id: string
+  list: string | null // playlist the video was opened from
+  index: number | null // 1-based position in that playlist
+  timestamp: number | null // start time in seconds, from t= or start=
+  canonicalUrl: string
+}
+
+export interface PlaylistUrl {
+  type: 'playlist'
+  list: string
+  canonicalUrl: string
+}
+
+export interface ChannelUrl {
+  type: 'channel'
+  channel: string // channel ID (UC...), @handle, c/name or user/name
+  canonicalUrl: string
+}
+
+export type YouTubeUrl = VideoUrl | PlaylistUrl | ChannelUrl
+
+const VIDEO_ID = /^[\w-]{11}$/
+const LIST_ID = /^[\w-]{2,}$/
+const HOSTS = ['youtube.com', 'youtu.be', 'youtube-nocookie.com']
+// Channel tabs that still mean "this channel"
+const CHANNEL_TABS = ['', 'videos', 'shorts', 'streams', 'featured', 'playlists']
+
+export function isVideoUrl(parsed: YouTubeUrl | null): parsed is VideoUrl {
+  return parsed !== null && (parsed.type === 'video' || parsed.type === 'short' || parsed.type === 'live')
+}
+
+function videoUrl(type: VideoUrl['type'], id: string, params: URLSearchParams): VideoUrl | null {
+  if (!VIDEO_ID.test(id)) return null
+
+  const listParam = params.get('list')
+  const list = listParam && LIST_ID.test(listParam) ? listParam : null
+  const indexParam = parseInt(params.get('index') || '', 10)
+  const index = list && indexParam > 0 ? indexParam : null
+  const time = params.get('t') || params.get('start')
+  const timestamp = time ? parseTimestamp(time) : null
+
+  const query = new URLSearchParams({ v: id })
+  if (list) query.set('list', list)
+  if (index) query.set('index', String(index))
+  if (timestamp) query.set('t', `${Math.floor(timestamp)}s`)
+
+  return { type, id, list, index, timestamp, canonicalUrl: `https://www.youtube.com/watch?${query}` }
+}
+
+function playlistUrl(list: string | null): PlaylistUrl | null {
+  if (!list || !LIST_ID.test(list)) return null
+  return { type: 'playlist', list, canonicalUrl: `https://www.youtube.com/playlist?list=${list}` }
+}
+
+function channelUrl(segments: string[]): ChannelUrl | null {
+  const [first, second] = segments
+  let channel: string | null = null
+  let rest: string[] = []
+
+  if (first.startsWith('@') && first.length > 1) {
+    channel = first
+    rest = segments.slice(1)
+  } else if (first === 'channel' && /^UC[\w-]{22}$/.test(second || '')) {
+    channel = second
+    rest = segments.slice(2)
+  } else if ((first === 'c' || first === 'user') && second) {
+    channel = `${first}/${second}`
+    rest = segments.slice(2)
+  }
+
+  if (!channel || rest.length > 1 || !CHANNEL_TABS.includes(rest[0] || '')) return null
+  const path = channel.startsWith('UC') ? `channel/${channel}` : channel
+  return { type: 'channel', channel, canonicalUrl: `https://www.youtube.com/${path}` }
+}
+
+function normalizeHost(hostname: string): string | null {
+  const host = hostname.toLowerCase().replace(/^(www|m|music)\./, '')
+  return HOSTS.includes(host) ? host : null
+}
+
+export function parseYouTubeUrl(input: string): YouTubeUrl | null {
+  const text = input.trim()
+  if (VIDEO_ID.test(text)) return videoUrl('video', text, new URLSearchParams())
+
+  let url: URL
+  try {
+    url = new URL(/^https?:\/\//i.test(text) ? text : `https://${text}`)
+  } catch {
+    return null
+  }
+
+  const host = normalizeHost(url.hostname)
+  if (!host) return null
+
+  const params = url.searchParams
+  // Timestamps sometimes come in the fragment: youtube.com/watch?v=ID#t=90
+  const hash = new URLSearchParams(url.hash.slice(1))
+  if (!params.has('t') && hash.has('t')) params.set('t', hash.get('t')!)
+
+  const segments = url.pathname.split('/').filter(Boolean)
+
+  if (host === 'youtu.be') {
+    return segments.length === 1 ? videoUrl('video', segments[0], params) : null
+  }
+
+  const [first = '', second = ''] = segments
+  switch (first) {
+    case 'watch':
+      if (segments.length > 1) return null
+      return params.has('v') ? videoUrl('video', params.get('v')!, params) : playlistUrl(params.get('list'))
+    case 'playlist':
+      return segments.length === 1 ? playlistUrl(params.get('list')) : null
+    case 'shorts':
+      return videoUrl('short', second, params)
+    case 'live':
+      return videoUrl('live', second, params)
+    case 'embed':
+      // Embedded playlists: /embed/videoseries?list=...
+      return second === 'videoseries' ? playlistUrl(params.get('list')) : videoUrl('video', second, params)
+    case 'v':
+    case 'e':
+      return videoUrl('video', second, params)
+    case 'attribution_link': {
+      // Share links from some apps: /attribution_link?u=/watch%3Fv%3DID%26feature%3Dshare
+      const target = params.get('u')
+      return target?.startsWith('/') ? parseYouTubeUrl(`https://www.youtube.com${target}`) : null
+    }
+    default:
+      return segments.length > 0 ? channelUrl(segments) : null
+  }
+}
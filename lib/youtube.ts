@@ -0,0 +1,171 @@
+import ytdl from '@distube/ytdl-core'
+import { Readable } from 'stream'
+import { classifyError, ErrorCode } from '@/lib/errors'
+import { extractInfo, Extractor } from '@/lib/extractor'
+import { listCaptionTracks, CaptionTrackSummary } from '@/lib/captions'
+import { infoCache, InfoCacheResult } from '@/lib/info-cache'
+import { uploadDate, videoChapters, Chapter } from '@/lib/metadata'
+import { liveSummary, liveVariants, upcomingError, variantHeight, LiveSummary } from '@/lib/live'
+
+const MAX_INFO_RETRIES = 3
+
+// YouTube can revoke a cached info's signed URLs before it expires; its
+// streams then fail with one of these
+const STALE_INFO_CODES: ErrorCode[] = ['FORMAT_EXPIRED', 'ACCESS_DENIED']
+
+export interface FormatSummary {
+  itag: number
+  qualityLabel: string | null
+  height: number | null
+  fps: number | null
+  codec: string | null
+  container: string
+  bitrate: number | null
+  audioBitrate: number | null
+  approxSize: number | null // bytes, estimated from bitrate when YouTube omits contentLength
+  hasVideo: boolean
+  hasAudio: boolean
+}
+
+export interface VideoInfoSummary {
+  videoId: string
+  title: string
+  channel: string
+  channelUrl: string | null
+  uploadDate: string | null // YYYY-MM-DD
+  durationSeconds: number
+  thumbnails: { url: string; width: number; height: number }[]
+  formats: FormatSummary[]
+  qualities: string[] // distinct video heights, highest first, e.g. ['2160p', '1080p']
+  captions: CaptionTrackSummary[]
+  chapters: Chapter[]
+  live: LiveSummary | null // set for live streams and recordings of past ones
+}
+
+// Get video info from the cache, or with retry logic, falling back to the
+// next extractor when one is broken. Parsing errors are not retried since
+// they mean the library is out of date, not that YouTube hiccupped; nor are
+// errors that will not change on retry, such as a private video.
+export async function getVideoInfo(videoId: string): Promise<ytdl.videoInfo> {
+  return (await lookupVideoInfo(videoId)).videoInfo
+}
+
+// getVideoInfo, also saying whether the info came from the cache
+export function lookupVideoInfo(videoId: string): Promise<InfoCacheResult> {
+  return infoCache.get(videoId, loadVideoInfo)
+}
+
+export function isStaleInfoError(error: unknown): boolean {
+  return STALE_INFO_CODES.includes(classifyError(error).code)
+}
+
+// Run `attempt` against the video's info. When it fails because the info's
+// URLs went stale, the cached copy is dropped and it runs once more against
+// freshly fetched info.
+export async function withVideoInfo<T>(
+  videoId: string,
+  attempt: (videoInfo: ytdl.videoInfo, cacheHit: boolean) => Promise<T>
+): Promise<T> {
+  const { videoInfo, cacheHit } = await lookupVideoInfo(videoId)
+  try {
+    return await attempt(videoInfo, cacheHit)
+  } catch (error) {
+    if (!isStaleInfoError(error)) throw error
+    infoCache.delete(videoId)
+    const fresh = await lookupVideoInfo(videoId)
+    return attempt(fresh.videoInfo, fresh.cacheHit)
+  }
+}
+
+// Drop the cached info when a stream fails with stale URLs after the response
+// has started, so the next request fetches it afresh
+export function evictOnStaleInfo(videoId: string, stream: Readable): void {
+  stream.once('error', (error) => {
+    if (isStaleInfoError(error)) infoCache.delete(videoId)
+  })
+}
+
+async function loadVideoInfo(videoId: string): Promise<ytdl.videoInfo> {
+  try {
+    return await extractInfo(videoId, (extractor) => getInfoWithRetries(extractor, videoId))
+  } catch (error: any) {
+    const appError = classifyError(error)
+    if (appError.code === 'LIVE_UPCOMING') throw await upcomingError(videoId, appError)
+    throw error
+  }
+}
+
+async function getInfoWithRetries(extractor: Extractor, videoId: string): Promise<ytdl.videoInfo> {
+  let retryCount = 0
+
+  while (true) {
+    try {
+      return await extractor.getInfo(videoId)
+    } catch (error: any) {
+      retryCount++
+      const { code, retryable } = classifyError(error)
+      if (code === 'EXTRACTOR_BROKEN' || !retryable || retryCount >= MAX_INFO_RETRIES) {
+        throw error
+      }
+
+      // Wait before retry (exponential backoff)
+      await new Promise(resolve => setTimeout(resolve, 1000 * retryCount))
+    }
+  }
+}
+
+export function summarizeFormat(format: ytdl.videoFormat, durationSeconds: number): FormatSummary {
+  const contentLength = parseInt(format.contentLength, 10)
+  const bitrate = format.averageBitrate || format.bitrate || null
+  let approxSize: number | null = null
+  if (contentLength > 0) {
+    approxSize = contentLength
+  } else if (bitrate && durationSeconds > 0) {
+    approxSize = Math.round((bitrate / 8) * durationSeconds)
+  }
+
+  return {
+    itag: format.itag,
+    qualityLabel: format.qualityLabel || null,
+    height: variantHeight(format) || null,
+    fps: format.fps || null,
+    codec: (format.hasVideo ? format.videoCodec : format.audioCodec) || null,
+    container: format.container,
+    bitrate,
+    audioBitrate: format.audioBitrate || null,
+    approxSize,
+    hasVideo: format.hasVideo,
+    hasAudio: format.hasAudio,
+  }
+}
+
+export function summarizeVideoInfo(videoInfo: ytdl.videoInfo): VideoInfoSummary {
+  const details = videoInfo.videoDetails
+  const durationSeconds = parseInt(details.lengthSeconds, 10) || 0
+  const live = liveSummary(videoInfo)
+
+  // Only the HLS variants of a stream that is still going can be recorded
+  const formats = (live?.isLiveNow ? liveVariants(videoInfo.formats) : videoInfo.formats)
+    .map((format) => summarizeFormat(format, durationSeconds))
+    .sort((a, b) => (b.height || 0) - (a.height || 0) || (b.bitrate || 0) - (a.bitrate || 0))
+
+  const heights = new Set<number>()
+  formats.forEach((format) => {
+    if (format.hasVideo && format.height) heights.add(format.height)
+  })
+
+  return {
+    videoId: details.videoId,
+    title: details.title,
+    channel: details.author?.name || details.ownerChannelName || '',
+    channelUrl: details.author?.channel_url || null,
+    uploadDate: uploadDate(videoInfo),
+    durationSeconds,
+    thumbnails: details.thumbnails.map(({ url, width, height }) => ({ url, width, height })),
+    formats,
+    qualities: Array.from(heights).sort((a, b) => b - a).map((height) => `${height}p`),
+    captions: listCaptionTracks(videoInfo),
+    chapters: videoChapters(videoInfo),
+    live,
+  }
+}
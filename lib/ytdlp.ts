@@ -0,0 +1,252 @@
+import ytdl from '@distube/ytdl-core'
+import { spawn } from 'child_process'
+import { Readable } from 'stream'
+import type { ReadableStream as NodeReadableStream } from 'stream/web'
+import type { Extractor } from '@/lib/extractor'
+import { ByteRange } from '@/lib/http-range'
+
+// yt-dlp must be on the PATH of the server (or pointed to by YTDLP_PATH).
+// It is only used when ytdl-core fails or EXTRACTOR=yt-dlp is set.
+export const YTDLP_PATH = process.env.YTDLP_PATH || 'yt-dlp'
+
+// Give up on a hung extraction before the route's own time limit
+const YTDLP_TIMEOUT_MS = 30000
+const STDERR_TAIL_BYTES = 2000
+
+// googlevideo throttles long single requests, so formats are fetched in
+// ranged chunks, as ytdl-core does
+const CHUNK_SIZE = 10 * 1024 * 1024
+
+// The parts of yt-dlp's --dump-single-json output we use
+interface YtDlpFormat {
+  format_id: string
+  url: string
+  ext: string
+  protocol?: string
+  vcodec?: string
+  acodec?: string
+  width?: number | null
+  height?: number | null
+  fps?: number | null
+  tbr?: number | null
+  abr?: number | null
+  filesize?: number | null
+  dynamic_range?: string | null
+  asr?: number | null
+  audio_channels?: number | null
+  http_headers?: { [name: string]: string }
+}
+
+interface YtDlpSubtitle {
+  ext: string
+  url: string
+  name?: string
+}
+
+interface YtDlpInfo {
+  id: string
+  title: string
+  description?: string | null
+  duration?: number | null
+  upload_date?: string | null // YYYYMMDD
+  channel?: string | null
+  uploader?: string | null
+  channel_url?: string | null
+  uploader_url?: string | null
+  thumbnails?: { url: string; width?: number; height?: number }[]
+  chapters?: { title: string; start_time: number; end_time: number }[] | null
+  is_live?: boolean | null
+  live_status?: string | null // 'is_live', 'was_live', 'post_live', 'not_live'...
+  release_timestamp?: number | null // unix seconds; when a stream started
+  formats: YtDlpFormat[]
+  subtitles?: { [language: string]: YtDlpSubtitle[] }
+  automatic_captions?: { [language: string]: YtDlpSubtitle[] }
+}
+
+// Formats opened by this extractor need the headers yt-dlp fetched them with
+const formatHeaders = new WeakMap<ytdl.videoFormat, { [name: string]: string }>()
+
+function runYtDlp(args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(YTDLP_PATH, args, { stdio: ['ignore', 'pipe', 'pipe'], timeout: YTDLP_TIMEOUT_MS })
+    const stdout: Buffer[] = []
+    let stderr = ''
+
+    child.stdout.on('data', (chunk: Buffer) => stdout.push(chunk))
+    child.stderr.on('data', (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString()).slice(-STDERR_TAIL_BYTES)
+    })
+
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      reject(error.code === 'ENOENT'
+        ? new Error('yt-dlp is not installed on the server. Set YTDLP_PATH or install yt-dlp.')
+        : error)
+    })
+
+    child.on('close', (code, signal) => {
+      if (code === 0) {
+        resolve(Buffer.concat(stdout).toString())
+      } else if (signal) {
+        reject(new Error(`yt-dlp timed out after ${YTDLP_TIMEOUT_MS / 1000}s`))
+      } else {
+        // yt-dlp reports problems as "ERROR: [youtube] ID: Private video..."
+        reject(new Error(stderr.trim().replace(/^ERROR:\s*/gm, '') || `yt-dlp exited with code ${code}`))
+      }
+    })
+  })
+}
+
+function toVideoFormat(format: YtDlpFormat, durationSeconds: number, isLive: boolean): ytdl.videoFormat | null {
+  // YouTube format ids are itags; skip storyboards and variants such as "140-drc"
+  if (!/^\d+$/.test(format.format_id) || !format.url) return null
+
+  const hasVideo = !!format.vcodec && format.vcodec !== 'none'
+  const hasAudio = !!format.acodec && format.acodec !== 'none'
+  if (!hasVideo && !hasAudio) return null
+
+  const container = format.ext === 'm4a' || format.ext === 'mp4' ? 'mp4' : format.ext
+  const codecs = [hasVideo && format.vcodec, hasAudio && format.acodec].filter(Boolean).join(', ')
+  const hdr = !!format.dynamic_range && format.dynamic_range !== 'SDR'
+  const fps = format.fps || undefined
+  const bitrate = format.tbr ? Math.round(format.tbr * 1000) : undefined
+
+  const videoFormat = {
+    itag: parseInt(format.format_id, 10),
+    url: format.url,
+    mimeType: `${hasVideo ? 'video' : 'audio'}/${container}; codecs="${codecs}"`,
+    container,
+    codecs,
+    videoCodec: hasVideo ? format.vcodec : undefined,
+    audioCodec: hasAudio ? format.acodec : undefined,
+    hasVideo,
+    hasAudio,
+    width: format.width || undefined,
+    height: format.height || undefined,
+    fps,
+    qualityLabel: hasVideo && format.height
+      ? `${format.height}p${fps && fps > 30 ? fps : ''}${hdr ? ' HDR' : ''}`
+      : undefined,
+    bitrate,
+    averageBitrate: bitrate,
+    audioBitrate: hasAudio && format.abr ? Math.round(format.abr) : undefined,
+    contentLength: format.filesize ? String(format.filesize) : '',
+    approxDurationMs: durationSeconds ? String(Math.round(durationSeconds * 1000)) : undefined,
+    audioSampleRate: format.asr ? String(format.asr) : undefined,
+    audioChannels: format.audio_channels || undefined,
+    isLive,
+    isHLS: !!format.protocol?.includes('m3u8'),
+    isDashMPD: format.protocol === 'http_dash_segments',
+  } as unknown as ytdl.videoFormat
+
+  formatHeaders.set(videoFormat, format.http_headers || {})
+  return videoFormat
+}
+
+// Caption tracks in the player response's shape; captions.ts drops the fmt
+// parameter from baseUrl to get timed-text XML, whichever variant this is
+function toCaptionTracks(info: YtDlpInfo): ytdl.captionTrack[] {
+  const tracks = (subtitles: { [language: string]: YtDlpSubtitle[] } | undefined, auto: boolean) =>
+    Object.entries(subtitles || {}).flatMap(([languageCode, variants]) => {
+      const variant = variants.find((v) => v.url.includes('/api/timedtext'))
+      if (!variant) return []
+      return [{
+        baseUrl: variant.url,
+        name: { simpleText: variant.name || languageCode },
+        vssId: `${auto ? 'a' : ''}.${languageCode}`,
+        languageCode,
+        kind: auto ? 'asr' : undefined,
+        isTranslatable: false,
+      } as unknown as ytdl.captionTrack]
+    })
+
+  // Auto-generated captions come machine-translated into every language;
+  // only the original track is worth listing
+  const automatic = tracks(info.automatic_captions, true).filter((track) => !track.baseUrl.includes('tlang='))
+  return [...tracks(info.subtitles, false), ...automatic]
+}
+
+function toVideoInfo(info: YtDlpInfo): ytdl.videoInfo {
+  const duration = info.duration || 0
+  const channelUrl = info.channel_url || info.uploader_url || null
+  const uploadDate = info.upload_date?.replace(/^(\d{4})(\d{2})(\d{2})$/, '$1-$2-$3') || ''
+  const isLive = info.live_status === 'is_live' || !!info.is_live
+  const isLiveContent = isLive || info.live_status === 'was_live' || info.live_status === 'post_live'
+
+  return {
+    formats: info.formats.map((format) => toVideoFormat(format, duration, isLive)).filter(Boolean),
+    videoDetails: {
+      videoId: info.id,
+      title: info.title,
+      description: info.description || null,
+      lengthSeconds: String(Math.round(duration)),
+      uploadDate,
+      publishDate: uploadDate,
+      ownerChannelName: info.channel || info.uploader || '',
+      author: { name: info.channel || info.uploader || '', channel_url: channelUrl },
+      thumbnails: (info.thumbnails || [])
+        .filter((thumbnail) => thumbnail.width && thumbnail.height)
+        .map(({ url, width, height }) => ({ url, width, height })),
+      chapters: (info.chapters || []).map((chapter) => ({ title: chapter.title, start_time: chapter.start_time })),
+      isLiveContent,
+      isLive,
+      liveBroadcastDetails: isLiveContent
+        ? {
+          isLiveNow: isLive,
+          startTimestamp: info.release_timestamp ? new Date(info.release_timestamp * 1000).toISOString() : '',
+        }
+        : undefined,
+    },
+    player_response: {
+      captions: { playerCaptionsTracklistRenderer: { captionTracks: toCaptionTracks(info) } },
+    },
+  } as unknown as ytdl.videoInfo
+}
+
+async function* fetchChunks(url: string, headers: { [name: string]: string }, range?: ByteRange) {
+  let position = range?.start ?? 0
+  const end = range?.end ?? Infinity
+
+  while (position <= end) {
+    const chunkEnd = Math.min(position + CHUNK_SIZE - 1, end)
+    const requested = chunkEnd - position + 1
+    const response = await fetch(url, { headers: { ...headers, Range: `bytes=${position}-${chunkEnd}` } })
+    // Asking past the end of a file of unknown size
+    if (response.status === 416) return
+    if (!response.ok || !response.body) {
+      throw Object.assign(new Error(`Status code: ${response.status}`), { statusCode: response.status })
+    }
+
+    let received = 0
+    for await (const chunk of Readable.fromWeb(response.body as NodeReadableStream)) {
+      received += chunk.length
+      yield chunk as Buffer
+    }
+
+    position += received
+    // A short chunk is the end of the file
+    if (received < requested) return
+  }
+}
+
+export const ytDlpExtractor: Extractor = {
+  name: 'yt-dlp',
+
+  async getInfo(videoId) {
+    const output = await runYtDlp([
+      '--dump-single-json',
+      '--no-playlist',
+      '--no-warnings',
+      '--skip-download',
+      `https://www.youtube.com/watch?v=${videoId}`,
+    ])
+    return toVideoInfo(JSON.parse(output))
+  },
+
+  openStream(_, format, range) {
+    return Readable.from(fetchChunks(format.url, formatHeaders.get(format) || {}, range))
+  },
+
+  requestHeaders(format) {
+    return formatHeaders.get(format) || {}
+  },
+}
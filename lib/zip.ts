@@ -0,0 +1,76 @@
+import archiver from 'archiver'
+import { PassThrough, Readable } from 'stream'
+import { finished } from 'stream/promises'
+import { classifyError } from '@/lib/errors'
+
+// ZIP archives of several downloads: the chapters of one video, or the videos
+// of a batch.
+
+export interface ZipEntry {
+  label: string // what errors.txt calls the entry if it fails
+  // Its name in the ZIP and its contents, opened only when its turn comes
+  open(): Promise<{ name: string; stream: Readable }>
+}
+
+// Write the entries into a ZIP one after another, so only one set of YouTube
+// streams is open at a time. An entry that fails is listed in errors.txt
+// rather than failing the rest. archiver waits forever on an entry stream
+// that errors, so each one goes through a PassThrough that is ended instead,
+// leaving what was written so far in the ZIP.
+export function zipEntries(entries: ZipEntry[]): Readable {
+  // Media is already compressed, so store entries without deflating them
+  const archive = archiver('zip', { store: true })
+  const failures: string[] = []
+  let current: { source: Readable; body: PassThrough } | null = null
+
+  // Stop the entry being written once nobody is reading the archive. The
+  // body is destroyed too, since the source going quietly would leave it
+  // waiting for an end that never comes.
+  archive.on('close', () => {
+    current?.source.destroy()
+    current?.body.destroy()
+  })
+
+  const addEntries = async () => {
+    for (const entry of entries) {
+      if (archive.destroyed) return
+      let opened: { name: string; stream: Readable }
+      try {
+        opened = await entry.open()
+      } catch (error: any) {
+        console.error(`ZIP entry ${entry.label} failed:`, error)
+        failures.push(`${entry.label}: ${classifyError(error).message}`)
+        continue
+      }
+
+      const source = opened.stream
+      if (archive.destroyed) {
+        source.destroy()
+        return
+      }
+      const body = new PassThrough()
+      current = { source, body }
+      source.once('error', (error) => {
+        console.error(`ZIP entry ${entry.label} failed:`, error)
+        failures.push(`${entry.label}: ${classifyError(error).message} The file is incomplete.`)
+        body.end()
+      })
+      source.pipe(body)
+      archive.append(body, { name: opened.name })
+      try {
+        await finished(body)
+      } catch (error) {
+        if (archive.destroyed) return
+        throw error
+      }
+    }
+
+    if (failures.length > 0) {
+      archive.append(failures.join('\n') + '\n', { name: 'errors.txt' })
+    }
+    await archive.finalize()
+  }
+
+  addEntries().catch((error) => archive.destroy(error))
+  return archive
+}